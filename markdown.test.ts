@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { markdownToTipTap, renderTipTapToMarkdown, type TipTapNode } from './test';
+
+const text = (value: string, marks?: TipTapNode['marks']): TipTapNode => ({
+  type: 'text',
+  text: value,
+  ...(marks ? { marks } : {})
+});
+
+const link = (href: string) => ({ type: 'link', attrs: { href } });
+
+const math = (latex: string): TipTapNode => ({ type: 'math_inline', attrs: { latex } });
+
+const paragraph = (...content: TipTapNode[]): TipTapNode => ({
+  type: 'doc',
+  content: [{ type: 'paragraph', content }]
+});
+
+const assertRoundTrip = (doc: TipTapNode, markdown: string) => {
+  assert.equal(renderTipTapToMarkdown(doc), markdown);
+  assert.deepEqual(markdownToTipTap(markdown), doc);
+};
+
+describe('Markdown round trip', () => {
+  it('keeps adjacent emphasis apart', () => {
+    assertRoundTrip(
+      paragraph(text('x', [{ type: 'bold' }]), text('y', [{ type: 'italic' }])),
+      '**x**_y_'
+    );
+    assertRoundTrip(
+      paragraph(text('x', [{ type: 'italic' }]), text('y', [{ type: 'bold' }])),
+      '*x*__y__'
+    );
+    assertRoundTrip(
+      paragraph(text('a', [{ type: 'bold' }, { type: 'italic' }]), text('b', [{ type: 'italic' }])),
+      '***a***_b_'
+    );
+    assertRoundTrip(
+      paragraph(text('a ', [{ type: 'bold' }]), text('b', [{ type: 'bold' }, { type: 'italic' }])),
+      '**a *b***'
+    );
+  });
+
+  it('keeps link destinations with parentheses, spaces and brackets', () => {
+    assertRoundTrip(
+      paragraph(text('w', [link('https://en.wikipedia.org/wiki/Foo_(bar)')])),
+      '[w](<https://en.wikipedia.org/wiki/Foo_(bar)>)'
+    );
+    assertRoundTrip(paragraph(text('s', [link('https://x.com/a b')])), '[s](<https://x.com/a b>)');
+    assertRoundTrip(
+      paragraph(text('g', [link('https://x.com/<a>\\b')])),
+      '[g](<https://x.com/\\<a\\>\\\\b>)'
+    );
+    assertRoundTrip(
+      {
+        type: 'doc',
+        content: [{ type: 'image', attrs: { src: 'https://x.com/a (1).png', alt: 'p' } }]
+      },
+      '![p](<https://x.com/a (1).png>)'
+    );
+  });
+
+  it('keeps a digit after math out of the formula', () => {
+    assertRoundTrip(paragraph(math('x'), text('5 apples')), '$x$&#53; apples');
+    assertRoundTrip(paragraph(text('cost '), math('x'), text('5')), 'cost $x$&#53;');
+    assertRoundTrip(paragraph(text('a &#53; b & c')), 'a \\&#53; b & c');
+  });
+});
+
+describe('markdownToTipTap', () => {
+  it('reads balanced parentheses in a bare destination', () => {
+    assert.deepEqual(
+      markdownToTipTap('[w](https://en.wikipedia.org/wiki/Foo_(bar))'),
+      paragraph(text('w', [link('https://en.wikipedia.org/wiki/Foo_(bar)')]))
+    );
+  });
+
+  it('drops a link title', () => {
+    assert.deepEqual(markdownToTipTap('[a](b "t")'), paragraph(text('a', [link('b')])));
+  });
+
+  it('leaves prices and malformed links as text', () => {
+    for (const markdown of ['$5 and $10', '$5-$10', '[a](b', '[a](b c)']) {
+      assert.deepEqual(markdownToTipTap(markdown), paragraph(text(markdown)));
+    }
+  });
+});
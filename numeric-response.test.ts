@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { gradeNumericResponse, parseNumericResponse } from './test';
+
+const assertParsed = (input: string, value: number, unit = '') => {
+  const parsed = parseNumericResponse(input);
+  assert.ok(parsed, `expected ${JSON.stringify(input)} to parse`);
+  assert.ok(Math.abs(parsed.value - value) <= 1e-9 * Math.max(1, Math.abs(value)), input);
+  assert.equal(parsed.unit, unit);
+};
+
+describe('parseNumericResponse', () => {
+  it('reads decimals and E notation', () => {
+    assertParsed('.5', 0.5);
+    assertParsed('5.', 5);
+    assertParsed('6.02e23', 6.02e23);
+    assertParsed('6.02 × 10^23', 6.02e23);
+    assertParsed('6.02x10^-3 m', 6.02e-3, 'm');
+  });
+
+  it('reads fractions and mixed numbers', () => {
+    assertParsed('3/4', 0.75);
+    assertParsed(' 1.5 / 2 ', 0.75);
+    assertParsed('1 / 2 kg', 0.5, 'kg');
+    assertParsed('1 1/2', 1.5);
+    assertParsed('1 1/2 m', 1.5, 'm');
+  });
+
+  it('applies a leading sign, including the minus sign character', () => {
+    assertParsed('+2', 2);
+    assertParsed('−3', -3);
+    assertParsed('- 4', -4);
+    assertParsed('-1 1/2', -1.5);
+  });
+
+  it('keeps the trailing unit', () => {
+    assertParsed('9.81 m/s^2', 9.81, 'm/s^2');
+  });
+
+  it('rejects malformed numbers instead of reading them as units', () => {
+    for (const input of ['', 'abc', '3,5', '1.2.3', '1/0', '2 1/2/3']) {
+      assert.equal(parseNumericResponse(input), null, input);
+    }
+  });
+});
+
+describe('gradeNumericResponse', () => {
+  it('reports a decimal comma as an invalid number', () => {
+    assert.equal(gradeNumericResponse('3,5', { value: 3.5 }).feedback, 'invalid_number');
+  });
+
+  it('checks the unit against its aliases', () => {
+    const key = { value: 9.81, unit: 'm/s^2', unitAliases: ['m s^-2'] };
+    assert.equal(gradeNumericResponse('9.81 m s^-2', key).isCorrect, true);
+    assert.equal(gradeNumericResponse('9.81 km/s^2', key).feedback, 'wrong_unit');
+  });
+});
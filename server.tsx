@@ -0,0 +1,12 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { TipTapRenderer } from './test';
+import type { TipTapNode, TipTapRendererProps } from './test';
+
+export type TipTapHtmlOptions = Omit<TipTapRendererProps, 'content' | 'staticMarkup'>;
+
+/** Works without a DOM; kept out of the card entry so client bundles skip `react-dom/server`. */
+export const renderTipTapToHtml = (
+  content: TipTapNode | string,
+  options: TipTapHtmlOptions = {}
+) => renderToStaticMarkup(<TipTapRenderer {...options} content={content} staticMarkup />);
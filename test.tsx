@@ -3,8 +3,12 @@ import React, {
   useCallback,
   useContext,
   useEffect,
+  useId,
+  useMemo,
+  useReducer,
   useRef,
-  useState
+  useState,
+  useSyncExternalStore
 } from 'react';
 
 export type TipTapMark = {
@@ -23,13 +27,33 @@ export type TipTapNode = {
 export type AnswerOption = {
   id: string;
   content: TipTapNode | string;
+  /** Keeps the option after the shuffled ones, e.g. "All of the above". */
+  pinned?: boolean;
+  feedback?: TipTapNode | string;
+};
+
+export type OptionFeedbackPlacement = 'inline' | 'explanation';
+
+/** `numeric` and `text` are free-response kinds answered by typing; their `answers` stay empty. */
+export type QuestionKind = 'single' | 'multiple' | 'numeric' | 'text';
+
+export type ResponseSettings = {
+  unit?: string;
+  placeholder?: string;
+  maxLength?: number;
 };
 
 export type Question = {
   id: string;
+  kind?: QuestionKind;
   stem: TipTapNode | string;
   answers: AnswerOption[];
   explanation?: TipTapNode | string | null;
+  shuffle?: boolean;
+  response?: ResponseSettings;
+  hints?: Array<TipTapNode | string>;
+  /** Submits the current answer automatically once this much visible time has passed. */
+  timeLimitMs?: number;
 };
 
 export type CheckStatus = 'idle' | 'checking' | 'success' | 'error';
@@ -38,24 +62,88 @@ export type CheckResult = {
   isCorrect: boolean;
   correctAnswerId: string;
   checkedAnswerId: string;
+  displayedAnswerIds?: string[];
+  hintsUsed?: number;
+  hintPenalty?: number;
+  elapsedMs?: number;
+  timedOut?: boolean;
+};
+
+export type MultiCheckResult = {
+  isCorrect: boolean;
+  correctAnswerIds: string[];
+  checkedAnswerIds: string[];
+  correctSelectionIds: string[];
+  missedAnswerIds: string[];
+  wrongAnswerIds: string[];
+  /** Partial credit between 0 and 1. */
+  score: number;
+  displayedAnswerIds?: string[];
+  hintsUsed?: number;
+  hintPenalty?: number;
+  elapsedMs?: number;
+  timedOut?: boolean;
+};
+
+export type ResponseFeedback = 'invalid_number' | 'wrong_unit';
+
+export type ResponseCheckResult = {
+  isCorrect: boolean;
+  checkedResponse: string;
+  correctResponse: string;
+  feedback?: ResponseFeedback;
+  displayedAnswerIds?: string[];
+  hintsUsed?: number;
+  hintPenalty?: number;
+  elapsedMs?: number;
+  timedOut?: boolean;
+};
+
+export type TimedOutResult = {
+  isCorrect: false;
+  timedOut: true;
+  elapsedMs: number;
+  displayedAnswerIds?: string[];
+  hintsUsed?: number;
+  hintPenalty?: number;
 };
 
+export type AnyCheckResult =
+  | CheckResult
+  | MultiCheckResult
+  | ResponseCheckResult
+  | TimedOutResult;
+
+export const isMultiCheckResult = (result: AnyCheckResult): result is MultiCheckResult =>
+  'correctAnswerIds' in result;
+
+export const isResponseCheckResult = (result: AnyCheckResult): result is ResponseCheckResult =>
+  'checkedResponse' in result;
+
+export const isTimedOutResult = (result: AnyCheckResult): result is TimedOutResult =>
+  !('correctAnswerId' in result) && !isMultiCheckResult(result) && !isResponseCheckResult(result);
+
+export const isFreeResponseQuestion = (question: Question) =>
+  question.kind === 'numeric' || question.kind === 'text';
+
+export type CheckErrorCode =
+  | 'network'
+  | 'timeout'
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'server'
+  | 'http'
+  | 'invalid_response';
+
 export type CheckError = {
   message: string;
-  code?: string;
+  code?: CheckErrorCode;
 };
 
 export type KatexRenderer = (latex: string, displayMode: boolean) => string;
 
-type KaTeX = {
-  renderToString: (
-    latex: string,
-    options: { displayMode: boolean; throwOnError: boolean }
-  ) => string;
-};
-
-const getGlobalKatex = (): KaTeX | null => {
-  const candidate = (globalThis as { katex?: KaTeX }).katex;
+const getGlobalKatex = (): KatexModule | null => {
+  const candidate = (globalThis as { katex?: KatexModule }).katex;
   if (!candidate || typeof candidate.renderToString !== 'function') {
     return null;
   }
@@ -78,6 +166,208 @@ export const renderMathToHtml = (
   renderer: KatexRenderer = defaultKatexRenderer
 ) => renderer(latex, displayMode);
 
+export type KatexOptions = {
+  macros?: Record<string, string>;
+  trust?: boolean | ((context: { command: string; url?: string; protocol?: string }) => boolean);
+  strict?: boolean | 'ignore' | 'warn' | 'error';
+  output?: 'html' | 'mathml' | 'htmlAndMathml';
+  maxSize?: number;
+  maxExpand?: number;
+  minRuleThickness?: number;
+};
+
+export type KatexModule = {
+  renderToString: (
+    latex: string,
+    options: KatexOptions & { displayMode: boolean; throwOnError: boolean }
+  ) => string;
+};
+
+export type KatexLoader = () => Promise<KatexModule | { default: KatexModule }>;
+
+export type LruCache<V> = {
+  get: (key: string) => V | undefined;
+  set: (key: string, value: V) => void;
+  clear: () => void;
+  readonly size: number;
+};
+
+export const createLruCache = <V,>(maxEntries = 500): LruCache<V> => {
+  const entries = new Map<string, V>();
+
+  return {
+    get: (key) => {
+      const value = entries.get(key);
+      if (value !== undefined) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    clear: () => entries.clear(),
+    get size() {
+      return entries.size;
+    }
+  };
+};
+
+export const formulaCache = createLruCache<string>();
+
+export type KatexConfig = {
+  options?: KatexOptions;
+  /** Loads KaTeX on first use, e.g. `() => import('katex')`. A global `katex` wins if present. */
+  load?: KatexLoader;
+  cache?: LruCache<string>;
+};
+
+const KatexConfigContext = createContext<KatexConfig>({});
+
+export const KatexProvider = ({
+  children,
+  ...config
+}: KatexConfig & { children: React.ReactNode }) => {
+  const { options, load, cache } = config;
+  const value = useMemo(() => ({ options, load, cache }), [options, load, cache]);
+  return <KatexConfigContext.Provider value={value}>{children}</KatexConfigContext.Provider>;
+};
+
+export const useKatexConfig = () => useContext(KatexConfigContext);
+
+type KatexLoadState =
+  | { status: 'loading'; promise: Promise<void> }
+  | { status: 'ready'; katex: KatexModule }
+  | { status: 'unavailable'; error: Error };
+
+const katexLoads = new WeakMap<KatexLoader, KatexLoadState>();
+
+const startKatexLoad = (load: KatexLoader): KatexLoadState => {
+  const existing = katexLoads.get(load);
+  if (existing) {
+    return existing;
+  }
+
+  const promise = load().then(
+    (loaded) => {
+      const katex = 'default' in loaded ? loaded.default : loaded;
+      katexLoads.set(load, { status: 'ready', katex });
+    },
+    (error) => {
+      katexLoads.set(load, {
+        status: 'unavailable',
+        error: error instanceof Error ? error : new Error('KaTeX failed to load')
+      });
+    }
+  );
+  const state: KatexLoadState = { status: 'loading', promise };
+  katexLoads.set(load, state);
+  return state;
+};
+
+const resolveKatex = (load?: KatexLoader): KatexLoadState => {
+  const katex = getGlobalKatex();
+  if (katex) {
+    return { status: 'ready', katex };
+  }
+
+  if (!load) {
+    return { status: 'unavailable', error: new Error('KaTeX is not available') };
+  }
+
+  return startKatexLoad(load);
+};
+
+const isSameKatexState = (a: KatexLoadState, b: KatexLoadState) => {
+  if (a.status === 'ready' && b.status === 'ready') {
+    return a.katex === b.katex;
+  }
+
+  if (a.status === 'loading' && b.status === 'loading') {
+    return a.promise === b.promise;
+  }
+
+  return a.status === 'unavailable' && b.status === 'unavailable';
+};
+
+export const useKatex = (enabled = true) => {
+  const { load: configuredLoad } = useKatexConfig();
+  const load = enabled ? configuredLoad : undefined;
+  const [state, setState] = useState(() => resolveKatex(load));
+
+  useEffect(() => {
+    const update = (next: KatexLoadState) =>
+      setState((previous) => (isSameKatexState(previous, next) ? previous : next));
+
+    const current = resolveKatex(load);
+    update(current);
+    if (current.status !== 'loading') {
+      return;
+    }
+
+    let active = true;
+    current.promise.then(() => {
+      if (active) {
+        update(resolveKatex(load));
+      }
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [load]);
+
+  return state;
+};
+
+const cacheKeyIds = new WeakMap<object, number>();
+let nextCacheKeyId = 1;
+
+const getCacheKeyId = (value: object | undefined) => {
+  if (!value) {
+    return 0;
+  }
+
+  let id = cacheKeyIds.get(value);
+  if (id === undefined) {
+    id = nextCacheKeyId;
+    nextCacheKeyId += 1;
+    cacheKeyIds.set(value, id);
+  }
+
+  return id;
+};
+
+const getOptionsCacheKey = (options: KatexOptions | undefined) =>
+  options
+    ? JSON.stringify(options, (_key, value: unknown) =>
+        typeof value === 'function' ? `function-${getCacheKeyId(value)}` : value
+      )
+    : '';
+
+const renderMathCached = (
+  latex: string,
+  displayMode: boolean,
+  render: KatexRenderer,
+  cache: LruCache<string>,
+  configKey: string
+) => {
+  const key = `${configKey}:${displayMode ? 'display' : 'inline'}:${latex}`;
+  const cached = cache.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const html = render(latex, displayMode);
+  cache.set(key, html);
+  return html;
+};
+
 export type RenderErrorBoundaryProps = {
   children: React.ReactNode;
   fallback?: React.ReactNode;
@@ -111,13 +401,129 @@ export class RenderErrorBoundary extends React.Component<
   }
 }
 
+export type UrlKind = 'link' | 'image';
+
+export type UrlPolicy = {
+  allowedProtocols?: string[];
+  /**
+   * Hostnames images may be loaded from. A leading `*.` matches any subdomain.
+   * When omitted, images from any host with an allowed protocol are accepted.
+   */
+  allowedImageHosts?: string[];
+  allowRelative?: boolean;
+  /** Runs after the checks pass; return `null` to reject the URL. */
+  rewriteUrl?: (url: string, kind: UrlKind) => string | null;
+};
+
+export const defaultUrlPolicy: UrlPolicy = {
+  allowedProtocols: ['http:', 'https:', 'mailto:', 'tel:'],
+  allowRelative: true
+};
+
+const URL_SCHEME_PATTERN = /^([a-z][a-z\d+.-]*):/i;
+const RELATIVE_URL_BASE = 'https://relative.invalid';
+
+const matchesHost = (hostname: string, allowedHosts: string[]) =>
+  allowedHosts.some((allowed) => {
+    const pattern = allowed.toLowerCase();
+    return pattern.startsWith('*.')
+      ? hostname.endsWith(pattern.slice(1))
+      : hostname === pattern;
+  });
+
+export const sanitizeUrl = (
+  rawUrl: string,
+  kind: UrlKind,
+  policy: UrlPolicy = defaultUrlPolicy
+): string | null => {
+  // Browsers ignore control characters inside URLs, so `java\nscript:` still runs.
+  const url = rawUrl.replace(/[\u0000-\u001F\u007F]/g, '').trim();
+  if (!url) {
+    return null;
+  }
+
+  const {
+    allowedProtocols = defaultUrlPolicy.allowedProtocols ?? [],
+    allowRelative = true,
+    allowedImageHosts
+  } = policy;
+
+  const scheme = URL_SCHEME_PATTERN.exec(url)?.[1];
+  if (scheme) {
+    if (!allowedProtocols.includes(`${scheme.toLowerCase()}:`)) {
+      return null;
+    }
+  } else if (!allowRelative) {
+    return null;
+  }
+
+  if (kind === 'image' && allowedImageHosts) {
+    let resolved: URL;
+    try {
+      resolved = new URL(url, RELATIVE_URL_BASE);
+    } catch (error) {
+      return null;
+    }
+
+    const isRelative = resolved.origin === RELATIVE_URL_BASE;
+    if (!isRelative && !matchesHost(resolved.hostname, allowedImageHosts)) {
+      return null;
+    }
+  }
+
+  return policy.rewriteUrl ? policy.rewriteUrl(url, kind) : url;
+};
+
 export type TipTapRenderVariant = 'block' | 'inline';
 
+export type RenderContext = {
+  inline: boolean;
+  variant: TipTapRenderVariant;
+  onRenderError?: (error: Error) => void;
+  katexRenderer?: KatexRenderer;
+  codeHighlighter?: CodeHighlighter;
+  staticMarkup: boolean;
+  sanitizeUrl: (url: string, kind: UrlKind) => string | null;
+  renderNodes: (nodes: TipTapNode[] | undefined) => React.ReactNode;
+  renderInlineList: (nodes: TipTapNode[] | undefined) => React.ReactNode;
+  applyMarks: (marks: TipTapMark[] | undefined, content: React.ReactNode) => React.ReactNode;
+};
+
+export type NodeRenderer = (node: TipTapNode, key: React.Key, ctx: RenderContext) => React.ReactNode;
+
+export type MarkRenderer = (
+  mark: TipTapMark,
+  content: React.ReactNode,
+  ctx: RenderContext
+) => React.ReactNode;
+
+/**
+ * Custom renderers keyed by TipTap node/mark type. Entries take precedence over
+ * the built-in renderers, so they can also be used to override a known type.
+ */
+export type TipTapExtensions = {
+  nodes?: Record<string, NodeRenderer>;
+  marks?: Record<string, MarkRenderer>;
+};
+
 export type TipTapRendererProps = {
   content: TipTapNode | string;
   onRenderError?: (error: Error) => void;
   katexRenderer?: KatexRenderer;
+  extensions?: TipTapExtensions;
+  urlPolicy?: UrlPolicy;
+  codeHighlighter?: CodeHighlighter;
   variant?: TipTapRenderVariant;
+  staticMarkup?: boolean;
+};
+
+type RenderOptions = {
+  onRenderError?: (error: Error) => void;
+  katexRenderer?: KatexRenderer;
+  extensions?: TipTapExtensions;
+  urlPolicy?: UrlPolicy;
+  codeHighlighter?: CodeHighlighter;
+  staticMarkup?: boolean;
 };
 
 const normalizeTipTapContent = (content: TipTapNode | string): TipTapNode => {
@@ -136,37 +542,6 @@ const normalizeTipTapContent = (content: TipTapNode | string): TipTapNode => {
   return content;
 };
 
-const applyMarks = (marks: TipTapMark[] | undefined, node: React.ReactNode) => {
-  if (!marks || marks.length === 0) {
-    return node;
-  }
-
-  return marks.reduce((acc, mark) => {
-    switch (mark.type) {
-      case 'bold':
-        return <strong>{acc}</strong>;
-      case 'italic':
-        return <em>{acc}</em>;
-      case 'strike':
-        return <s>{acc}</s>;
-      case 'code':
-        return <code>{acc}</code>;
-      case 'link': {
-        const href = typeof mark.attrs?.href === 'string' ? mark.attrs.href : '#';
-        const target = typeof mark.attrs?.target === 'string' ? mark.attrs.target : undefined;
-        const rel = target === '_blank' ? 'noreferrer noopener' : undefined;
-        return (
-          <a href={href} target={target} rel={rel}>
-            {acc}
-          </a>
-        );
-      }
-      default:
-        return acc;
-    }
-  }, node as React.ReactNode);
-};
-
 const extractText = (node: TipTapNode): string => {
   if (typeof node.text === 'string') {
     return node.text;
@@ -205,128 +580,630 @@ type MathNodeProps = {
 };
 
 const MathNode = ({ latex, displayMode, katexRenderer }: MathNodeProps) => {
-  try {
-    const html = renderMathToHtml(latex, displayMode, katexRenderer);
+  const t = useMessages();
+  const { options, cache = formulaCache } = useKatexConfig();
+  const katexState = useKatex(!katexRenderer);
+  const className = displayMode ? 'math-display' : 'math-inline';
+
+  const html = useMemo(() => {
+    if (!katexRenderer && katexState.status === 'loading') {
+      return undefined;
+    }
+
+    const render: KatexRenderer =
+      katexRenderer ??
+      (katexState.status === 'ready'
+        ? (source, display) =>
+            katexState.katex.renderToString(source, {
+              ...options,
+              displayMode: display,
+              throwOnError: true
+            })
+        : defaultKatexRenderer);
+    const configKey = katexRenderer
+      ? `renderer-${getCacheKeyId(katexRenderer)}`
+      : `katex-${getCacheKeyId(katexState.status === 'ready' ? katexState.katex : undefined)}` +
+        `-options-${getOptionsCacheKey(options)}`;
+
+    try {
+      return renderMathCached(latex, displayMode, render, cache, configKey);
+    } catch (error) {
+      return null;
+    }
+  }, [cache, displayMode, katexRenderer, katexState, latex, options]);
+
+  if (html === undefined) {
     return (
-      <span
-        className={displayMode ? 'math-display' : 'math-inline'}
-        dangerouslySetInnerHTML={{ __html: html }}
-      />
+      <span className={cx(className, 'math-loading')} aria-busy="true">
+        {latex}
+      </span>
     );
-  } catch (error) {
+  }
+
+  if (html === null) {
     return (
       <span className="math-fallback">
         {latex}
-        <span className="math-warning"> (formula failed to render)</span>
+        <span className="math-warning"> {t('math.renderFailed')}</span>
       </span>
     );
   }
+
+  return <span className={className} dangerouslySetInnerHTML={{ __html: html }} />;
 };
 
-const renderNodes = (
-  nodes: TipTapNode[] | undefined,
-  onRenderError?: (error: Error) => void,
-  katexRenderer?: KatexRenderer,
-  variant: TipTapRenderVariant = 'block'
-) =>
-  nodes?.map((child, index) => renderNode(child, index, onRenderError, katexRenderer, variant)) ?? null;
+export type CodeTokenType =
+  | 'plain'
+  | 'keyword'
+  | 'string'
+  | 'comment'
+  | 'number'
+  | 'function'
+  | 'property'
+  | 'operator'
+  | 'punctuation';
+
+export type CodeToken = {
+  type: CodeTokenType;
+  text: string;
+};
 
-const renderInlineList = (
-  nodes: TipTapNode[] | undefined,
-  onRenderError?: (error: Error) => void,
-  katexRenderer?: KatexRenderer
-) =>
-  nodes?.map((child, index) => {
-    const content =
-      child.type === 'listItem'
-        ? renderNodes(child.content, onRenderError, katexRenderer, 'inline')
-        : renderNode(child, `list-item-${index}`, onRenderError, katexRenderer, 'inline');
+/** Returns `null` for unsupported languages, which renders the code unhighlighted. */
+export type CodeHighlighter = (code: string, language: string) => CodeToken[] | null;
+
+type CodeGrammar = Array<[CodeTokenType, RegExp]>;
+
+const codeKeywords = (words: string, flags = 'y') =>
+  new RegExp(`\\b(?:${words.trim().split(/\s+/).join('|')})\\b`, flags);
+
+const quotedStringPattern = /"(?:\\[\s\S]|[^"\\\n])*"?|'(?:\\[\s\S]|[^'\\\n])*'?/y;
+const numberPattern = /\b(?:0[xob][\da-f_]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)n?\b/iy;
+const functionCallPattern = /[A-Za-z_$][\w$]*(?=\s*\()/y;
+const operatorPattern = /[+\-*/%=!<>&|^~?:@]+/y;
+const punctuationPattern = /[{}[\]();,.]/y;
+
+const createCLikeGrammar = (keywords: string, strings = quotedStringPattern): CodeGrammar => [
+  ['comment', /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y],
+  ['string', strings],
+  ['number', numberPattern],
+  ['keyword', codeKeywords(keywords)],
+  ['function', functionCallPattern],
+  ['operator', operatorPattern],
+  ['punctuation', punctuationPattern]
+];
+
+const javascriptKeywords = `async await break case catch class const continue debugger default
+  delete do else export extends false finally for from function if import in instanceof let new
+  null of return static super switch this throw true try typeof undefined var void while yield`;
+
+const javascriptStringPattern = new RegExp(
+  `${quotedStringPattern.source}|${/`(?:\\[\s\S]|[^`\\])*`?/.source}`,
+  'y'
+);
 
-    return (
-      <React.Fragment key={index}>
-        <span className="tiptap-inline-list-item">{content}</span>
-        {index < (nodes?.length ?? 0) - 1 ? (
-          <span className="tiptap-inline-sep">{' \u2022 '}</span>
-        ) : null}
-      </React.Fragment>
-    );
-  }) ?? null;
+const codeGrammars: Record<string, CodeGrammar> = {
+  javascript: createCLikeGrammar(javascriptKeywords, javascriptStringPattern),
+  typescript: createCLikeGrammar(
+    `${javascriptKeywords} abstract any as boolean declare enum implements interface keyof
+    namespace never number private protected public readonly satisfies string type unknown`,
+    javascriptStringPattern
+  ),
+  java: createCLikeGrammar(`abstract boolean break byte case catch char class continue default do
+    double else enum extends false final finally float for if implements import instanceof int
+    interface long new null package private protected public return short static super switch
+    this throw throws true try var void while`),
+  c: createCLikeGrammar(`auto break case char const continue default do double else enum extern
+    float for goto if include define int long return short signed sizeof static struct switch
+    typedef union unsigned void volatile while NULL`),
+  cpp: createCLikeGrammar(`auto bool break case catch char class const constexpr continue default
+    delete do double else enum false float for if include int long namespace new nullptr private
+    protected public return short static std struct switch template this throw true try typename
+    using virtual void while`),
+  python: [
+    ['comment', /#[^\n]*/y],
+    ['string', /[rbuf]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/iy],
+    ['string', /[rbuf]{0,2}(?:"(?:\\[\s\S]|[^"\\\n])*"?|'(?:\\[\s\S]|[^'\\\n])*'?)/iy],
+    ['number', numberPattern],
+    ['keyword', codeKeywords(`and as assert async await break class continue def del elif else
+      except False finally for from global if import in is lambda None nonlocal not or pass raise
+      return self True try while with yield`)],
+    ['function', functionCallPattern],
+    ['operator', operatorPattern],
+    ['punctuation', punctuationPattern]
+  ],
+  json: [
+    ['property', /"(?:\\[\s\S]|[^"\\\n])*"(?=\s*:)/y],
+    ['string', /"(?:\\[\s\S]|[^"\\\n])*"?/y],
+    ['number', /-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/iy],
+    ['keyword', codeKeywords('true false null')],
+    ['punctuation', /[{}[\],:]/y]
+  ],
+  bash: [
+    ['comment', /#[^\n]*/y],
+    ['string', quotedStringPattern],
+    ['property', /\$(?:\{[^}\n]*\}?|[\w@#?*!$-]+)/y],
+    ['keyword', codeKeywords(`case do done echo elif else esac exit export fi for function if in
+      local read return set shift then unset until while`)],
+    ['number', numberPattern],
+    ['operator', /[|&;<>=!]+/y]
+  ],
+  sql: [
+    ['comment', /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y],
+    ['string', /'(?:''|[^'])*'?/y],
+    ['number', numberPattern],
+    ['keyword', codeKeywords(`add all alter and as asc between by case create delete desc distinct
+      drop else end exists from group having in index inner insert into is join key left like
+      limit not null on or order outer primary right select set table then union update values
+      view when where with`, 'iy')],
+    ['function', functionCallPattern],
+    ['operator', /[+\-*/%=!<>|]+/y],
+    ['punctuation', /[();,.]/y]
+  ]
+};
 
-type RenderContext = {
-  inline: boolean;
-  variant: TipTapRenderVariant;
-  onRenderError?: (error: Error) => void;
-  katexRenderer?: KatexRenderer;
-  renderNodes: (nodes: TipTapNode[] | undefined) => React.ReactNode;
-  renderInlineList: (nodes: TipTapNode[] | undefined) => React.ReactNode;
+const codeLanguageAliases: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  'c++': 'cpp',
+  h: 'c'
 };
 
-type NodeRenderer = (node: TipTapNode, key: React.Key, ctx: RenderContext) => React.ReactNode;
+const codeLanguageLabels: Record<string, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  java: 'Java',
+  c: 'C',
+  cpp: 'C++',
+  python: 'Python',
+  json: 'JSON',
+  bash: 'Bash',
+  sql: 'SQL'
+};
 
-type KnownNodeType =
-  | 'doc'
-  | 'paragraph'
-  | 'heading'
-  | 'text'
-  | 'hardBreak'
-  | 'bulletList'
-  | 'orderedList'
-  | 'listItem'
-  | 'codeBlock'
-  | 'blockquote'
-  | 'horizontalRule'
-  | 'image'
-  | 'math_inline'
-  | 'math_block';
+const normalizeCodeLanguage = (language: string) => {
+  const normalized = language.trim().toLowerCase();
+  return codeLanguageAliases[normalized] ?? normalized;
+};
 
-const clampHeadingLevel = (level: number) => Math.min(Math.max(level, 1), 6);
+const plainCodePattern = /[A-Za-z_$][\w$]*|\s+|[\s\S]/y;
 
-const getHeadingTag = (level: number) =>
-  `h${clampHeadingLevel(level)}` as keyof JSX.IntrinsicElements;
+export const defaultCodeHighlighter: CodeHighlighter = (code, language) => {
+  const grammar = codeGrammars[normalizeCodeLanguage(language)];
+  if (!grammar) {
+    return null;
+  }
 
-const renderInlineWrapper = (
-  key: React.Key,
-  className: string,
-  content: React.ReactNode
-) => (
-  <span key={key} className={className}>
-    {content}
-  </span>
-);
+  const tokens: CodeToken[] = [];
+  const pushToken = (type: CodeTokenType, text: string) => {
+    const previous = tokens[tokens.length - 1];
+    if (previous && previous.type === type && type === 'plain') {
+      previous.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
 
-const renderBlockWrapper = <T extends keyof JSX.IntrinsicElements>(
-  key: React.Key,
-  Tag: T,
-  content: React.ReactNode
-) => <Tag key={key}>{content}</Tag>;
+  let index = 0;
+  while (index < code.length) {
+    let matched = '';
+    for (const [type, pattern] of grammar) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(code);
+      if (match && match[0]) {
+        matched = match[0];
+        pushToken(type, matched);
+        break;
+      }
+    }
 
-const nodeRenderers: Record<KnownNodeType, NodeRenderer> = {
-  doc: (node, key, ctx) => (
-    <React.Fragment key={key}>{ctx.renderNodes(node.content)}</React.Fragment>
-  ),
-  paragraph: (node, key, ctx) =>
-    ctx.inline
-      ? renderInlineWrapper(key, 'tiptap-inline-paragraph', ctx.renderNodes(node.content))
-      : renderBlockWrapper(key, 'p', ctx.renderNodes(node.content)),
-  heading: (node, key, ctx) => {
-    const level = typeof node.attrs?.level === 'number' ? node.attrs.level : 2;
-    const Tag = getHeadingTag(level);
-    return ctx.inline
-      ? renderInlineWrapper(key, 'tiptap-inline-heading', ctx.renderNodes(node.content))
-      : renderBlockWrapper(key, Tag, ctx.renderNodes(node.content));
-  },
-  text: (node, key) => (
-    <React.Fragment key={key}>{applyMarks(node.marks, node.text ?? '')}</React.Fragment>
-  ),
-  hardBreak: (_node, key) => <br key={key} />,
-  bulletList: (node, key, ctx) =>
-    ctx.inline
-      ? renderInlineWrapper(
-          key,
-          'tiptap-inline-list',
-          ctx.renderInlineList(node.content)
-        )
-      : renderBlockWrapper(key, 'ul', ctx.renderNodes(node.content)),
+    if (!matched) {
+      plainCodePattern.lastIndex = index;
+      matched = plainCodePattern.exec(code)?.[0] ?? code[index];
+      pushToken('plain', matched);
+    }
+
+    index += matched.length;
+  }
+
+  return tokens;
+};
+
+const splitTokensIntoLines = (tokens: CodeToken[]) => {
+  const lines: CodeToken[][] = [[]];
+  tokens.forEach((token) => {
+    token.text.split('\n').forEach((text, index) => {
+      if (index > 0) {
+        lines.push([]);
+      }
+      if (text) {
+        lines[lines.length - 1].push({ type: token.type, text });
+      }
+    });
+  });
+
+  return lines;
+};
+
+const getHighlightedLines = (value: unknown, lineCount: number) => {
+  const lines = new Set<number>();
+  if (Array.isArray(value)) {
+    value.forEach((line) => {
+      if (Number.isInteger(line)) {
+        lines.add(line as number);
+      }
+    });
+    return lines;
+  }
+
+  if (typeof value !== 'string') {
+    return lines;
+  }
+
+  value.split(',').forEach((part) => {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+))?\s*$/.exec(part);
+    if (!match) {
+      return;
+    }
+
+    const from = Number(match[1]);
+    const to = Math.min(match[2] ? Number(match[2]) : from, lineCount);
+    for (let line = from; line <= to; line += 1) {
+      lines.add(line);
+    }
+  });
+
+  return lines;
+};
+
+type CopyStatus = 'idle' | 'copied' | 'failed';
+
+const copyStatusMessageKeys: Record<CopyStatus, MessageKey> = {
+  idle: 'code.copy',
+  copied: 'code.copied',
+  failed: 'code.copyFailed'
+};
+
+const CopyCodeButton = ({ code }: { code: string }) => {
+  const t = useMessages();
+  const [status, setStatus] = useState<CopyStatus>('idle');
+
+  useEffect(() => {
+    if (status === 'idle') {
+      return;
+    }
+
+    const timer = setTimeout(() => setStatus('idle'), 2000);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const handleCopy = () => {
+    const clipboard = typeof navigator === 'undefined' ? undefined : navigator.clipboard;
+    if (!clipboard) {
+      setStatus('failed');
+      return;
+    }
+
+    clipboard.writeText(code).then(
+      () => setStatus('copied'),
+      () => setStatus('failed')
+    );
+  };
+
+  return (
+    <button type="button" className="tiptap-code__copy" onClick={handleCopy} aria-live="polite">
+      {t(copyStatusMessageKeys[status])}
+    </button>
+  );
+};
+
+type CodeBlockProps = {
+  code: string;
+  language?: string;
+  lineNumbers?: boolean;
+  highlightLines?: unknown;
+  codeHighlighter?: CodeHighlighter;
+  onRenderError?: (error: Error) => void;
+  staticMarkup?: boolean;
+};
+
+const CodeBlock = ({
+  code,
+  language,
+  lineNumbers = false,
+  highlightLines,
+  codeHighlighter = defaultCodeHighlighter,
+  onRenderError,
+  staticMarkup = false
+}: CodeBlockProps) => {
+  const normalizedLanguage = language ? normalizeCodeLanguage(language) : '';
+
+  let tokens: CodeToken[] | null = null;
+  if (language) {
+    try {
+      tokens = codeHighlighter(code, language);
+    } catch (error) {
+      onRenderError?.(error instanceof Error ? error : new Error('Code highlighting failed'));
+    }
+  }
+
+  const lines = splitTokensIntoLines(tokens ?? [{ type: 'plain', text: code }]);
+  const highlightedLines = getHighlightedLines(highlightLines, lines.length);
+
+  return (
+    <div className="tiptap-code" data-language={normalizedLanguage || undefined}>
+      {staticMarkup ? null : (
+        <div className="tiptap-code__header">
+          {language ? (
+            <span className="tiptap-code__language">
+              {codeLanguageLabels[normalizedLanguage] ?? language}
+            </span>
+          ) : null}
+          <CopyCodeButton code={code} />
+        </div>
+      )}
+      <pre className={cx('tiptap-code__pre', lineNumbers && 'tiptap-code__pre--numbered')}>
+        <code className={normalizedLanguage ? `language-${normalizedLanguage}` : undefined}>
+          {lines.map((lineTokens, index) => (
+            <span
+              key={index}
+              className={cx(
+                'tiptap-code__line',
+                highlightedLines.has(index + 1) && 'tiptap-code__line--highlighted'
+              )}
+              data-line={index + 1}
+            >
+              {lineTokens.map((token, tokenIndex) =>
+                token.type === 'plain' ? (
+                  token.text
+                ) : (
+                  <span key={tokenIndex} className={`tiptap-token tiptap-token--${token.type}`}>
+                    {token.text}
+                  </span>
+                )
+              )}
+              {index < lines.length - 1 ? '\n' : null}
+            </span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+type KnownMarkType =
+  | 'bold'
+  | 'italic'
+  | 'strike'
+  | 'code'
+  | 'link'
+  | 'underline'
+  | 'subscript'
+  | 'superscript'
+  | 'highlight'
+  | 'textStyle';
+
+const markNestingOrder: string[] = [
+  'link',
+  'textStyle',
+  'highlight',
+  'bold',
+  'italic',
+  'underline',
+  'strike',
+  'subscript',
+  'superscript',
+  'code'
+];
+
+const getMarkRank = (type: string) => {
+  const index = markNestingOrder.indexOf(type);
+  return index === -1 ? markNestingOrder.length : index;
+};
+
+const CSS_COLOR_PATTERN = /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\([\d\s.,%/]+\)|[a-z]+)$/i;
+
+const getColorAttr = (mark: TipTapMark) => {
+  const color = typeof mark.attrs?.color === 'string' ? mark.attrs.color.trim() : '';
+  return CSS_COLOR_PATTERN.test(color) ? color : undefined;
+};
+
+const markRenderers: Record<KnownMarkType, MarkRenderer> = {
+  bold: (_mark, content) => <strong>{content}</strong>,
+  italic: (_mark, content) => <em>{content}</em>,
+  strike: (_mark, content) => <s>{content}</s>,
+  code: (_mark, content) => <code>{content}</code>,
+  link: (mark, content, ctx) => {
+    const rawHref = typeof mark.attrs?.href === 'string' ? mark.attrs.href : '#';
+    const href = ctx.sanitizeUrl(rawHref, 'link');
+    if (href === null) {
+      ctx.onRenderError?.(new Error(`Blocked unsafe link URL: ${rawHref}`));
+      return <span className="tiptap-blocked-link">{content}</span>;
+    }
+
+    const target = typeof mark.attrs?.target === 'string' ? mark.attrs.target : undefined;
+    const rel = target === '_blank' ? 'noreferrer noopener' : undefined;
+    return (
+      <a href={href} target={target} rel={rel}>
+        {content}
+      </a>
+    );
+  },
+  underline: (_mark, content) => <u>{content}</u>,
+  subscript: (_mark, content) => <sub>{content}</sub>,
+  superscript: (_mark, content) => <sup>{content}</sup>,
+  highlight: (mark, content) => {
+    const color = getColorAttr(mark);
+    return (
+      <mark className="tiptap-highlight" style={color ? { backgroundColor: color } : undefined}>
+        {content}
+      </mark>
+    );
+  },
+  textStyle: (mark, content) => {
+    const color = getColorAttr(mark);
+    return color ? <span style={{ color }}>{content}</span> : content;
+  }
+};
+
+const applyMarks = (
+  marks: TipTapMark[] | undefined,
+  node: React.ReactNode,
+  ctx: RenderContext,
+  customMarks?: Record<string, MarkRenderer>
+) => {
+  if (!marks || marks.length === 0) {
+    return node;
+  }
+
+  const ordered = [...marks].sort((a, b) => getMarkRank(a.type) - getMarkRank(b.type));
+
+  return ordered.reduceRight((acc, mark) => {
+    const renderer = customMarks?.[mark.type] ?? markRenderers[mark.type as KnownMarkType];
+    return renderer ? renderer(mark, acc, ctx) : acc;
+  }, node as React.ReactNode);
+};
+
+const renderNodes = (
+  nodes: TipTapNode[] | undefined,
+  options: RenderOptions,
+  variant: TipTapRenderVariant = 'block'
+) => nodes?.map((child, index) => renderNode(child, index, options, variant)) ?? null;
+
+const renderInlineList = (nodes: TipTapNode[] | undefined, options: RenderOptions) =>
+  nodes?.map((child, index) => {
+    const content =
+      child.type === 'listItem'
+        ? renderNodes(child.content, options, 'inline')
+        : renderNode(child, `list-item-${index}`, options, 'inline');
+
+    return (
+      <React.Fragment key={index}>
+        <span className="tiptap-inline-list-item">{content}</span>
+        {index < (nodes?.length ?? 0) - 1 ? (
+          <span className="tiptap-inline-sep">{' \u2022 '}</span>
+        ) : null}
+      </React.Fragment>
+    );
+  }) ?? null;
+
+type KnownNodeType =
+  | 'doc'
+  | 'paragraph'
+  | 'heading'
+  | 'text'
+  | 'hardBreak'
+  | 'bulletList'
+  | 'orderedList'
+  | 'listItem'
+  | 'codeBlock'
+  | 'blockquote'
+  | 'horizontalRule'
+  | 'image'
+  | 'math_inline'
+  | 'math_block'
+  | 'table'
+  | 'tableRow'
+  | 'tableHeader'
+  | 'tableCell';
+
+const clampHeadingLevel = (level: number) => Math.min(Math.max(level, 1), 6);
+
+const getHeadingTag = (level: number) =>
+  `h${clampHeadingLevel(level)}` as keyof JSX.IntrinsicElements;
+
+const renderInlineWrapper = (
+  key: React.Key,
+  className: string,
+  content: React.ReactNode
+) => (
+  <span key={key} className={className}>
+    {content}
+  </span>
+);
+
+const renderBlockWrapper = <T extends keyof JSX.IntrinsicElements>(
+  key: React.Key,
+  Tag: T,
+  content: React.ReactNode
+) => <Tag key={key}>{content}</Tag>;
+
+const renderInlineSequence = (
+  nodes: TipTapNode[] | undefined,
+  ctx: RenderContext,
+  separator: string
+) =>
+  nodes?.map((child, index) => (
+    <React.Fragment key={index}>
+      {ctx.renderNodes([child])}
+      {index < nodes.length - 1 ? <span className="tiptap-inline-sep">{separator}</span> : null}
+    </React.Fragment>
+  )) ?? null;
+
+const getSpanAttr = (value: unknown) =>
+  typeof value === 'number' && value > 1 ? Math.floor(value) : undefined;
+
+const getTableCellProps = (node: TipTapNode) => {
+  const colwidth = Array.isArray(node.attrs?.colwidth)
+    ? node.attrs.colwidth.filter((width): width is number => typeof width === 'number' && width > 0)
+    : [];
+  const width = colwidth.length > 0 ? colwidth.reduce((sum, value) => sum + value, 0) : undefined;
+
+  return {
+    colSpan: getSpanAttr(node.attrs?.colspan),
+    rowSpan: getSpanAttr(node.attrs?.rowspan),
+    style: width ? { width } : undefined
+  };
+};
+
+const renderTableCell = (
+  Tag: 'th' | 'td',
+  className: string,
+  node: TipTapNode,
+  key: React.Key,
+  ctx: RenderContext
+) =>
+  ctx.inline ? (
+    renderInlineWrapper(key, className, ctx.renderNodes(node.content))
+  ) : (
+    <Tag key={key} {...getTableCellProps(node)}>
+      {ctx.renderNodes(node.content)}
+    </Tag>
+  );
+
+const nodeRenderers: Record<KnownNodeType, NodeRenderer> = {
+  doc: (node, key, ctx) => (
+    <React.Fragment key={key}>{ctx.renderNodes(node.content)}</React.Fragment>
+  ),
+  paragraph: (node, key, ctx) =>
+    ctx.inline
+      ? renderInlineWrapper(key, 'tiptap-inline-paragraph', ctx.renderNodes(node.content))
+      : renderBlockWrapper(key, 'p', ctx.renderNodes(node.content)),
+  heading: (node, key, ctx) => {
+    const level = typeof node.attrs?.level === 'number' ? node.attrs.level : 2;
+    const Tag = getHeadingTag(level);
+    return ctx.inline
+      ? renderInlineWrapper(key, 'tiptap-inline-heading', ctx.renderNodes(node.content))
+      : renderBlockWrapper(key, Tag, ctx.renderNodes(node.content));
+  },
+  text: (node, key, ctx) => (
+    <React.Fragment key={key}>{ctx.applyMarks(node.marks, node.text ?? '')}</React.Fragment>
+  ),
+  hardBreak: (_node, key) => <br key={key} />,
+  bulletList: (node, key, ctx) =>
+    ctx.inline
+      ? renderInlineWrapper(
+          key,
+          'tiptap-inline-list',
+          ctx.renderInlineList(node.content)
+        )
+      : renderBlockWrapper(key, 'ul', ctx.renderNodes(node.content)),
   orderedList: (node, key, ctx) =>
     ctx.inline
       ? renderInlineWrapper(
@@ -346,9 +1223,16 @@ const nodeRenderers: Record<KnownNodeType, NodeRenderer> = {
         {codeText}
       </code>
     ) : (
-      <pre key={key}>
-        <code>{codeText}</code>
-      </pre>
+      <CodeBlock
+        key={key}
+        code={codeText}
+        language={typeof node.attrs?.language === 'string' ? node.attrs.language : undefined}
+        lineNumbers={node.attrs?.lineNumbers === true}
+        highlightLines={node.attrs?.highlightLines}
+        codeHighlighter={ctx.codeHighlighter}
+        onRenderError={ctx.onRenderError}
+        staticMarkup={ctx.staticMarkup}
+      />
     );
   },
   blockquote: (node, key, ctx) =>
@@ -364,7 +1248,17 @@ const nodeRenderers: Record<KnownNodeType, NodeRenderer> = {
       return null;
     }
 
-    return <img key={key} src={src} alt={alt} loading="lazy" />;
+    const safeSrc = ctx.sanitizeUrl(src, 'image');
+    if (safeSrc === null) {
+      ctx.onRenderError?.(new Error(`Blocked unsafe image URL: ${src}`));
+      return (
+        <span key={key} className="tiptap-blocked-image">
+          {alt || src}
+        </span>
+      );
+    }
+
+    return <img key={key} src={safeSrc} alt={alt} loading="lazy" />;
   },
   math_inline: (node, key, ctx) => (
     <MathNode
@@ -378,26 +1272,51 @@ const nodeRenderers: Record<KnownNodeType, NodeRenderer> = {
     <div key={key} className="math-block">
       <MathNode latex={getLatexFromNode(node)} displayMode katexRenderer={ctx.katexRenderer} />
     </div>
-  )
+  ),
+  table: (node, key, ctx) =>
+    ctx.inline ? (
+      renderInlineWrapper(key, 'tiptap-inline-table', renderInlineSequence(node.content, ctx, '; '))
+    ) : (
+      <div key={key} className="tiptap-table-wrapper">
+        <table className="tiptap-table">
+          <tbody>{ctx.renderNodes(node.content)}</tbody>
+        </table>
+      </div>
+    ),
+  tableRow: (node, key, ctx) =>
+    ctx.inline
+      ? renderInlineWrapper(
+          key,
+          'tiptap-inline-table-row',
+          renderInlineSequence(node.content, ctx, ' | ')
+        )
+      : renderBlockWrapper(key, 'tr', ctx.renderNodes(node.content)),
+  tableHeader: (node, key, ctx) =>
+    renderTableCell('th', 'tiptap-inline-table-header', node, key, ctx),
+  tableCell: (node, key, ctx) => renderTableCell('td', 'tiptap-inline-table-cell', node, key, ctx)
 };
 
 const renderNode = (
   node: TipTapNode,
   key: React.Key,
-  onRenderError?: (error: Error) => void,
-  katexRenderer?: KatexRenderer,
+  options: RenderOptions,
   variant: TipTapRenderVariant = 'block'
 ): React.ReactNode => {
+  const { onRenderError, katexRenderer, codeHighlighter, extensions, urlPolicy } = options;
   const context: RenderContext = {
     inline: variant === 'inline',
     variant,
     onRenderError,
     katexRenderer,
-    renderNodes: (nodes) => renderNodes(nodes, onRenderError, katexRenderer, variant),
-    renderInlineList: (nodes) => renderInlineList(nodes, onRenderError, katexRenderer)
+    codeHighlighter,
+    staticMarkup: options.staticMarkup ?? false,
+    sanitizeUrl: (url, kind) => sanitizeUrl(url, kind, urlPolicy),
+    renderNodes: (nodes) => renderNodes(nodes, options, variant),
+    renderInlineList: (nodes) => renderInlineList(nodes, options),
+    applyMarks: (marks, content) => applyMarks(marks, content, context, extensions?.marks)
   };
 
-  const renderer = nodeRenderers[node.type as KnownNodeType];
+  const renderer = extensions?.nodes?.[node.type] ?? nodeRenderers[node.type as KnownNodeType];
   if (!renderer) {
     onRenderError?.(new Error(`Unsupported node type: ${node.type}`));
     return <span key={key} className="tiptap-unknown" data-node-type={node.type} />;
@@ -410,561 +1329,5787 @@ export const TipTapRenderer = ({
   content,
   onRenderError,
   katexRenderer,
-  variant = 'block'
+  extensions,
+  urlPolicy,
+  codeHighlighter,
+  variant = 'block',
+  staticMarkup
 }: TipTapRendererProps) => {
   const node = normalizeTipTapContent(content);
-  return <>{renderNode(node, 'root', onRenderError, katexRenderer, variant)}</>;
+  return (
+    <>
+      {renderNode(
+        node,
+        'root',
+        { onRenderError, katexRenderer, codeHighlighter, extensions, urlPolicy, staticMarkup },
+        variant
+      )}
+    </>
+  );
 };
 
-export type AppConfig = {
-  demoMode: boolean;
-  userEntitlement?: 'free' | 'pro' | 'enterprise';
-};
+export type PlainTextMathMode = 'latex' | 'spoken';
 
-const defaultConfig: AppConfig = {
-  demoMode: false
+export type TipTapTextOptions = {
+  math?: PlainTextMathMode;
 };
 
-const AppConfigContext = createContext<AppConfig>(defaultConfig);
-
-export const AppConfigProvider = ({
-  value,
-  children
-}: {
-  value: AppConfig;
-  children: React.ReactNode;
-}) => <AppConfigContext.Provider value={value}>{children}</AppConfigContext.Provider>;
-
-export const useAppConfig = () => useContext(AppConfigContext);
+const isOwnKey = (record: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(record, key);
+
+const LATEX_SPOKEN_COMMANDS: Record<string, string> = {
+  alpha: 'alpha',
+  beta: 'beta',
+  gamma: 'gamma',
+  delta: 'delta',
+  epsilon: 'epsilon',
+  theta: 'theta',
+  lambda: 'lambda',
+  mu: 'mu',
+  pi: 'pi',
+  rho: 'rho',
+  sigma: 'sigma',
+  tau: 'tau',
+  phi: 'phi',
+  omega: 'omega',
+  Delta: 'capital delta',
+  Sigma: 'capital sigma',
+  Omega: 'capital omega',
+  cdot: 'times',
+  times: 'times',
+  div: 'divided by',
+  pm: 'plus or minus',
+  mp: 'minus or plus',
+  le: 'is less than or equal to',
+  leq: 'is less than or equal to',
+  ge: 'is greater than or equal to',
+  geq: 'is greater than or equal to',
+  ne: 'is not equal to',
+  neq: 'is not equal to',
+  approx: 'is approximately equal to',
+  infty: 'infinity',
+  to: 'goes to',
+  rightarrow: 'goes to',
+  sum: 'the sum of',
+  int: 'the integral of',
+  lim: 'the limit of',
+  sin: 'sine',
+  cos: 'cosine',
+  tan: 'tangent',
+  log: 'log',
+  ln: 'natural log',
+  circ: 'degrees',
+  '%': 'percent'
+};
 
-const DEFAULT_DELAY_MS = 500;
-const DEFAULT_FAIL_RATE = 0.15;
+const LATEX_SPOKEN_SYMBOLS: Record<string, string> = {
+  '+': 'plus',
+  '-': 'minus',
+  '=': 'equals',
+  '<': 'is less than',
+  '>': 'is greater than',
+  '*': 'times',
+  '/': 'over',
+  '(': '',
+  ')': '',
+  '[': '',
+  ']': ''
+};
 
-const resultCache = new Map<string, CheckResult>();
-const correctAnswerByQuestion = new Map<string, string>();
+const LATEX_TEXT_COMMANDS = new Set(['text', 'mathrm', 'mathbf', 'mathit', 'operatorname']);
+const LATEX_IGNORED_COMMANDS = new Set(['left', 'right', 'displaystyle']);
 
-const getCacheKey = (questionId: string, answerId: string) => `${questionId}::${answerId}`;
+const speakRootDegree = (degree: string) => {
+  if (degree === '2') {
+    return 'square';
+  }
 
-const abortError = () => {
-  const error = new Error('Request aborted');
-  (error as Error & { name: string }).name = 'AbortError';
-  return error;
-};
+  if (degree === '3') {
+    return 'cube';
+  }
 
-const getCorrectAnswerId = (questionId: string, answerId: string) => {
-  if (!correctAnswerByQuestion.has(questionId)) {
-    correctAnswerByQuestion.set(questionId, answerId);
+  if (!/^\d+$/.test(degree)) {
+    return `${degree}th`;
   }
 
-  return correctAnswerByQuestion.get(questionId) ?? answerId;
+  const lastTwo = Number(degree) % 100;
+  const suffix =
+    lastTwo >= 11 && lastTwo <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][lastTwo % 10] ?? 'th';
+  return `${degree}${suffix}`;
 };
 
-export type CheckAnswerOptions = {
-  signal?: AbortSignal;
-  delayMs?: number;
-  failRate?: number;
-  useCache?: boolean;
-};
+const speakLatex = (latex: string): string => {
+  const words: string[] = [];
+  let index = 0;
 
-export const checkAnswer = (
-  questionId: string,
-  answerId: string,
-  options: CheckAnswerOptions = {}
-): Promise<CheckResult> => {
-  const {
-    signal,
-    delayMs = DEFAULT_DELAY_MS,
-    failRate = DEFAULT_FAIL_RATE,
-    useCache = true
-  } = options;
+  const readCommand = () => {
+    const match = /^\\([a-zA-Z]+|.)/.exec(latex.slice(index));
+    index += match ? match[0].length : 1;
+    return match ? match[1] : '';
+  };
 
-  const cacheKey = getCacheKey(questionId, answerId);
-  const cached = useCache ? resultCache.get(cacheKey) : undefined;
-  if (cached) {
-    return Promise.resolve(cached);
-  }
+  const readArgument = (): string => {
+    while (latex[index] === ' ') {
+      index += 1;
+    }
 
-  return new Promise((resolve, reject) => {
-    const timer = setTimeout(() => {
-      if (signal?.aborted) {
-        reject(abortError());
-        return;
+    if (latex[index] === '{') {
+      const start = index + 1;
+      let depth = 0;
+      for (; index < latex.length; index += 1) {
+        if (latex[index] === '{') {
+          depth += 1;
+        } else if (latex[index] === '}') {
+          depth -= 1;
+          if (depth === 0) {
+            break;
+          }
+        }
       }
 
-      if (Math.random() < failRate) {
-        reject(new Error('Network error. Please try again.'));
-        return;
-      }
+      const inner = latex.slice(start, index);
+      index += 1;
+      return speakLatex(inner);
+    }
 
-      const correctAnswerId = getCorrectAnswerId(questionId, answerId);
-      const result: CheckResult = {
-        isCorrect: answerId === correctAnswerId,
-        correctAnswerId,
-        checkedAnswerId: answerId
-      };
+    if (latex[index] === '\\') {
+      const start = index;
+      readCommand();
+      return speakLatex(latex.slice(start, index));
+    }
+
+    const char = latex[index] ?? '';
+    index += 1;
+    return speakLatex(char);
+  };
 
-      if (useCache) {
-        resultCache.set(cacheKey, result);
+  while (index < latex.length) {
+    const char = latex[index];
+
+    if (char === '\\') {
+      const command = readCommand();
+      if (command === 'frac' || command === 'dfrac' || command === 'tfrac') {
+        const numerator = readArgument();
+        const denominator = readArgument();
+        words.push(`${numerator} over ${denominator}`);
+      } else if (command === 'sqrt') {
+        let degree = '';
+        if (latex[index] === '[') {
+          const close = latex.indexOf(']', index);
+          const end = close === -1 ? latex.length : close;
+          degree = speakLatex(latex.slice(index + 1, end));
+          index = end + 1;
+        }
+        const radicand = readArgument();
+        words.push(`the ${degree ? speakRootDegree(degree) : 'square'} root of ${radicand}`);
+      } else if (LATEX_TEXT_COMMANDS.has(command)) {
+        words.push(readArgument());
+      } else if (!LATEX_IGNORED_COMMANDS.has(command)) {
+        words.push(
+          isOwnKey(LATEX_SPOKEN_COMMANDS, command)
+            ? LATEX_SPOKEN_COMMANDS[command]
+            : /^[a-zA-Z]+$/.test(command)
+              ? command
+              : ''
+        );
       }
+    } else if (char === '^') {
+      index += 1;
+      const exponent = readArgument();
+      words.push(
+        exponent === '2' ? 'squared' : exponent === '3' ? 'cubed' : `to the power of ${exponent}`
+      );
+    } else if (char === '_') {
+      index += 1;
+      words.push(`sub ${readArgument()}`);
+    } else if (char === '{') {
+      words.push(readArgument());
+    } else if (char in LATEX_SPOKEN_SYMBOLS) {
+      words.push(LATEX_SPOKEN_SYMBOLS[char]);
+      index += 1;
+    } else if (/\s/.test(char) || char === '}') {
+      index += 1;
+    } else {
+      const run = /^[A-Za-z0-9.,]+/.exec(latex.slice(index))?.[0] ?? char;
+      words.push(run);
+      index += run.length;
+    }
+  }
 
-      resolve(result);
-    }, delayMs);
+  return words.filter(Boolean).join(' ').replace(/\s+/g, ' ').trim();
+};
 
-    if (signal) {
-      signal.addEventListener(
-        'abort',
-        () => {
-          clearTimeout(timer);
-          reject(abortError());
-        },
-        { once: true }
-      );
+const indentContinuation = (text: string, prefix: string) =>
+  prefix + text.split('\n').join(`\n${' '.repeat(prefix.length)}`);
+
+const nodeToText = (node: TipTapNode, options: TipTapTextOptions): string => {
+  const childTexts = () => (node.content ?? []).map((child) => nodeToText(child, options));
+
+  switch (node.type) {
+    case 'text':
+      return node.text ?? '';
+    case 'hardBreak':
+      return '\n';
+    case 'horizontalRule':
+      return '---';
+    case 'paragraph':
+    case 'heading':
+      return childTexts().join('');
+    case 'doc':
+      return childTexts().filter(Boolean).join('\n\n');
+    case 'listItem':
+    case 'tableHeader':
+    case 'tableCell':
+      return childTexts().filter(Boolean).join('\n');
+    case 'blockquote':
+      return childTexts()
+        .filter(Boolean)
+        .join('\n\n')
+        .split('\n')
+        .map((line) => `> ${line}`)
+        .join('\n');
+    case 'bulletList':
+      return childTexts()
+        .map((text) => indentContinuation(text, '- '))
+        .join('\n');
+    case 'orderedList': {
+      const start = typeof node.attrs?.start === 'number' ? node.attrs.start : 1;
+      return childTexts()
+        .map((text, index) => indentContinuation(text, `${start + index}. `))
+        .join('\n');
+    }
+    case 'codeBlock':
+      return node.text ?? extractText(node);
+    case 'image':
+      return typeof node.attrs?.alt === 'string' && node.attrs.alt ? `[${node.attrs.alt}]` : '';
+    case 'math_inline':
+    case 'math_block': {
+      const latex = getLatexFromNode(node);
+      if (options.math === 'spoken') {
+        return speakLatex(latex);
+      }
+
+      return node.type === 'math_block' ? `$$${latex}$$` : `$${latex}$`;
+    }
+    case 'table':
+      return childTexts().join('\n');
+    case 'tableRow':
+      return childTexts()
+        .map((text) => text.replace(/\n+/g, ' '))
+        .join(' | ');
+    default:
+      return childTexts().join('');
+  }
+};
+
+export const renderTipTapToText = (
+  content: TipTapNode | string,
+  options: TipTapTextOptions = {}
+) =>
+  nodeToText(normalizeTipTapContent(content), options)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const MARKDOWN_ESCAPABLE_PATTERN = /[!-/:-@[-`{-~]/;
+const MARKDOWN_FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})\s*([^\s`]*)/;
+const MARKDOWN_HEADING_PATTERN = /^\s{0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const MARKDOWN_RULE_PATTERN = /^\s{0,3}(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:_\s*){3,})$/;
+const MARKDOWN_LIST_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])(\s+|$)/;
+const MARKDOWN_QUOTE_PATTERN = /^\s{0,3}>\s?/;
+const MARKDOWN_NUMERIC_REFERENCE_PATTERN = /^&#(?:(\d{1,7})|[xX]([\da-fA-F]{1,6}));/;
+
+const getIndent = (line: string) => line.length - line.trimStart().length;
+
+const isBlankLine = (line: string) => line.trim() === '';
+
+const startsMarkdownBlock = (line: string) =>
+  MARKDOWN_FENCE_PATTERN.test(line) ||
+  MARKDOWN_HEADING_PATTERN.test(line) ||
+  MARKDOWN_RULE_PATTERN.test(line) ||
+  MARKDOWN_LIST_PATTERN.test(line) ||
+  MARKDOWN_QUOTE_PATTERN.test(line) ||
+  line.trimStart().startsWith('$$');
+
+const withMarks = (node: TipTapNode, marks: TipTapMark[]): TipTapNode =>
+  marks.length > 0 ? { ...node, marks } : node;
+
+const findCodeSpanEnd = (text: string, start: number) => {
+  let fenceLength = 0;
+  while (text[start + fenceLength] === '`') {
+    fenceLength += 1;
+  }
+
+  const fence = '`'.repeat(fenceLength);
+  let index = text.indexOf(fence, start + fenceLength);
+  while (index !== -1) {
+    if (text[index + fenceLength] !== '`') {
+      return { fenceLength, end: index };
+    }
+    while (text[index] === '`') {
+      index += 1;
+    }
+    index = text.indexOf(fence, index);
+  }
+
+  return null;
+};
+
+// Pandoc rules: `$` must hug its content and the closing `$` must not be
+// followed by a digit, so prices like "$5 and $10" stay plain text.
+const findInlineMathEnd = (text: string, start: number) => {
+  if (text[start + 1] === '$' || /\s/.test(text[start + 1] ?? ' ')) {
+    return -1;
+  }
+
+  for (let index = start + 1; index < text.length; index += 1) {
+    if (text[index] === '\\') {
+      index += 1;
+      continue;
+    }
+
+    if (text[index] === '$') {
+      const isValidClose = !/\s/.test(text[index - 1]) && !/\d/.test(text[index + 1] ?? '');
+      return isValidClose ? index : -1;
+    }
+  }
+
+  return -1;
+};
+
+const skipInlineAtom = (text: string, index: number) => {
+  if (text[index] === '\\') {
+    return index + 2;
+  }
+
+  if (text[index] === '`') {
+    const span = findCodeSpanEnd(text, index);
+    return span ? span.end + span.fenceLength : index + 1;
+  }
+
+  if (text[index] === '$') {
+    const end = findInlineMathEnd(text, index);
+    return end === -1 ? index + 1 : end + 1;
+  }
+
+  return index;
+};
+
+const findClosingDelimiter = (text: string, start: number, delimiter: string) => {
+  const char = delimiter[0];
+  let index = start;
+
+  while (index < text.length) {
+    const skipped = skipInlineAtom(text, index);
+    if (skipped !== index) {
+      index = skipped;
+      continue;
+    }
+
+    if (text[index] !== char) {
+      index += 1;
+      continue;
+    }
+
+    let runLength = 0;
+    while (text[index + runLength] === char) {
+      runLength += 1;
+    }
+
+    // A run of exactly two closes `**` but not `*`; longer runs close on their last chars.
+    const closes = delimiter.length === 1 ? runLength !== 2 : runLength >= 2;
+    const closeAt = index + runLength - delimiter.length;
+    if (closes && index > start && !/\s/.test(text[index - 1])) {
+      return closeAt;
+    }
+
+    index += runLength;
+  }
+
+  return -1;
+};
+
+const findClosingBracket = (text: string, start: number) => {
+  let depth = 0;
+  for (let index = start; index < text.length; index += 1) {
+    const skipped = skipInlineAtom(text, index);
+    if (skipped !== index) {
+      index = skipped - 1;
+      continue;
+    }
+
+    if (text[index] === '[') {
+      depth += 1;
+    } else if (text[index] === ']') {
+      depth -= 1;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+
+  return -1;
+};
+
+// Reads `(href "title")`. Bare destinations may hold balanced parentheses, as in
+// Wikipedia URLs; `<...>` destinations may hold spaces and any parentheses.
+const parseLinkDestination = (text: string, start: number) => {
+  if (text[start] !== '(') {
+    return null;
+  }
+
+  let index = start + 1;
+  while (text[index] === ' ') {
+    index += 1;
+  }
+
+  let href: string;
+  if (text[index] === '<') {
+    const hrefStart = index + 1;
+    for (index = hrefStart; index < text.length && text[index] !== '>'; index += 1) {
+      if (text[index] === '\\') {
+        index += 1;
+      } else if (text[index] === '<' || text[index] === '\n') {
+        return null;
+      }
+    }
+
+    if (index >= text.length) {
+      return null;
+    }
+
+    href = unescapeMarkdown(text.slice(hrefStart, index));
+    index += 1;
+  } else {
+    const hrefStart = index;
+    let depth = 0;
+    for (; index < text.length && !/\s/.test(text[index]); index += 1) {
+      if (text[index] === '\\') {
+        index += 1;
+      } else if (text[index] === '(') {
+        depth += 1;
+      } else if (text[index] === ')') {
+        if (depth === 0) {
+          break;
+        }
+        depth -= 1;
+      }
+    }
+
+    href = unescapeMarkdown(text.slice(hrefStart, index));
+  }
+
+  const rest = /^(?:\s+"([^"]*)")?\s*\)/.exec(text.slice(index));
+  return rest ? { href, title: rest[1], end: index + rest[0].length - 1 } : null;
+};
+
+const emphasisMarks: Array<[string, string]> = [
+  ['**', 'bold'],
+  ['__', 'bold'],
+  ['~~', 'strike'],
+  ['*', 'italic'],
+  ['_', 'italic']
+];
+
+const parseMarkdownInline = (text: string, marks: TipTapMark[] = []): TipTapNode[] => {
+  const nodes: TipTapNode[] = [];
+  let buffer = '';
+
+  const flushText = () => {
+    if (buffer) {
+      nodes.push(withMarks({ type: 'text', text: buffer }, marks));
+      buffer = '';
+    }
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === '\\' && text[index + 1] === '\n') {
+      flushText();
+      nodes.push({ type: 'hardBreak' });
+      index += 2;
+      continue;
+    }
+
+    if (char === '\\' && MARKDOWN_ESCAPABLE_PATTERN.test(text[index + 1] ?? '')) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === '&') {
+      const reference = MARKDOWN_NUMERIC_REFERENCE_PATTERN.exec(text.slice(index));
+      const codePoint = reference
+        ? parseInt(reference[1] ?? reference[2], reference[1] ? 10 : 16)
+        : NaN;
+      if (reference && codePoint > 0 && codePoint <= 0x10ffff) {
+        buffer += String.fromCodePoint(codePoint);
+        index += reference[0].length;
+        continue;
+      }
+    }
+
+    if (char === '\n') {
+      if (/ {2,}$/.test(buffer)) {
+        buffer = buffer.replace(/ +$/, '');
+        flushText();
+        nodes.push({ type: 'hardBreak' });
+      } else {
+        buffer += ' ';
+      }
+      index += 1;
+      continue;
+    }
+
+    if (char === '`') {
+      const span = findCodeSpanEnd(text, index);
+      if (span) {
+        const code = text.slice(index + span.fenceLength, span.end);
+        const trimmed = /^ .* $/.test(code) && code.trim() ? code.slice(1, -1) : code;
+        flushText();
+        nodes.push(withMarks({ type: 'text', text: trimmed }, [...marks, { type: 'code' }]));
+        index = span.end + span.fenceLength;
+        continue;
+      }
+    }
+
+    if (char === '$') {
+      const end = findInlineMathEnd(text, index);
+      if (end !== -1) {
+        flushText();
+        nodes.push({ type: 'math_inline', attrs: { latex: text.slice(index + 1, end) } });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '!' && text[index + 1] === '[') {
+      const labelEnd = findClosingBracket(text, index + 1);
+      const destination = labelEnd === -1 ? null : parseLinkDestination(text, labelEnd + 1);
+      if (destination) {
+        flushText();
+        nodes.push({
+          type: 'image',
+          attrs: {
+            src: destination.href,
+            alt: unescapeMarkdown(text.slice(index + 2, labelEnd)),
+            ...(destination.title ? { title: destination.title } : {})
+          }
+        });
+        index = destination.end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const labelEnd = findClosingBracket(text, index);
+      const destination = labelEnd === -1 ? null : parseLinkDestination(text, labelEnd + 1);
+      if (destination) {
+        flushText();
+        nodes.push(
+          ...parseMarkdownInline(text.slice(index + 1, labelEnd), [
+            ...marks,
+            { type: 'link', attrs: { href: destination.href } }
+          ])
+        );
+        index = destination.end + 1;
+        continue;
+      }
+    }
+
+    const emphasis = emphasisMarks.find(([delimiter]) => text.startsWith(delimiter, index));
+    if (emphasis) {
+      const [delimiter, markType] = emphasis;
+      const opensWord = !/\s/.test(text[index + delimiter.length] ?? ' ');
+      const isIntraword = delimiter[0] === '_' && /[\p{L}\p{N}]/u.test(text[index - 1] ?? '');
+      const close =
+        opensWord && !isIntraword
+          ? findClosingDelimiter(text, index + delimiter.length, delimiter)
+          : -1;
+      if (close !== -1) {
+        flushText();
+        nodes.push(
+          ...parseMarkdownInline(text.slice(index + delimiter.length, close), [
+            ...marks,
+            { type: markType }
+          ])
+        );
+        index = close + delimiter.length;
+        continue;
+      }
+
+      buffer += delimiter;
+      index += delimiter.length;
+      continue;
+    }
+
+    buffer += char;
+    index += 1;
+  }
+
+  flushText();
+  return nodes;
+};
+
+const unescapeMarkdown = (text: string) => text.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+
+const parseMarkdownParagraph = (lines: string[]): TipTapNode => {
+  const content = parseMarkdownInline(lines.map((line) => line.trimStart()).join('\n').trim());
+  if (content.length === 1 && content[0].type === 'image') {
+    return content[0];
+  }
+
+  return { type: 'paragraph', content };
+};
+
+const parseMarkdownList = (lines: string[], start: number) => {
+  const first = MARKDOWN_LIST_PATTERN.exec(lines[start]);
+  const baseIndent = first ? first[1].length : 0;
+  const isOrdered = first ? /\d/.test(first[2]) : false;
+  const items: TipTapNode[] = [];
+  let index = start;
+
+  while (index < lines.length) {
+    const match = MARKDOWN_LIST_PATTERN.exec(lines[index]);
+    if (!match || match[1].length !== baseIndent || /\d/.test(match[2]) !== isOrdered) {
+      break;
+    }
+
+    const contentIndent = match[0].length;
+    const itemLines = [lines[index].slice(contentIndent)];
+    index += 1;
+
+    while (index < lines.length) {
+      const line = lines[index];
+      if (isBlankLine(line)) {
+        const next = lines.slice(index + 1).find((candidate) => !isBlankLine(candidate));
+        if (next === undefined || getIndent(next) <= baseIndent) {
+          break;
+        }
+        itemLines.push('');
+        index += 1;
+        continue;
+      }
+
+      const indent = getIndent(line);
+      const previous = itemLines[itemLines.length - 1];
+      const isLazyContinuation = !isBlankLine(previous) && !startsMarkdownBlock(line);
+      if (indent <= baseIndent && !isLazyContinuation) {
+        break;
+      }
+
+      itemLines.push(line.slice(Math.min(indent, contentIndent)));
+      index += 1;
+    }
+
+    items.push({ type: 'listItem', content: parseMarkdownBlocks(itemLines) });
+
+    while (index < lines.length && isBlankLine(lines[index])) {
+      const next = lines.slice(index).find((candidate) => !isBlankLine(candidate));
+      const nextMatch = next === undefined ? null : MARKDOWN_LIST_PATTERN.exec(next);
+      if (!nextMatch || nextMatch[1].length !== baseIndent) {
+        break;
+      }
+      index += 1;
+    }
+  }
+
+  const startNumber = first && isOrdered ? Number.parseInt(first[2], 10) : 1;
+  const list: TipTapNode = {
+    type: isOrdered ? 'orderedList' : 'bulletList',
+    content: items,
+    ...(startNumber !== 1 ? { attrs: { start: startNumber } } : {})
+  };
+
+  return { list, next: index };
+};
+
+const parseMarkdownBlocks = (lines: string[]): TipTapNode[] => {
+  const blocks: TipTapNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlankLine(line)) {
+      index += 1;
+      continue;
+    }
+
+    const fence = MARKDOWN_FENCE_PATTERN.exec(line);
+    if (fence) {
+      const [, , marker, language] = fence;
+      const codeLines: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index].trim().startsWith(marker)) {
+        codeLines.push(lines[index]);
+        index += 1;
+      }
+      index += 1;
+      blocks.push({
+        type: 'codeBlock',
+        ...(language ? { attrs: { language } } : {}),
+        content: codeLines.length > 0 ? [{ type: 'text', text: codeLines.join('\n') }] : []
+      });
+      continue;
+    }
+
+    const trimmed = line.trim();
+    if (trimmed.startsWith('$$')) {
+      const mathLines = [trimmed.slice(2)];
+      if (trimmed.length > 2 && trimmed.endsWith('$$')) {
+        mathLines[0] = trimmed.slice(2, -2);
+        index += 1;
+      } else {
+        index += 1;
+        while (index < lines.length && !lines[index].trim().endsWith('$$')) {
+          mathLines.push(lines[index]);
+          index += 1;
+        }
+        if (index < lines.length) {
+          mathLines.push(lines[index].trim().slice(0, -2));
+          index += 1;
+        }
+      }
+      blocks.push({ type: 'math_block', attrs: { latex: mathLines.join('\n').trim() } });
+      continue;
+    }
+
+    const heading = MARKDOWN_HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        attrs: { level: heading[1].length },
+        content: parseMarkdownInline(heading[2] ?? '')
+      });
+      index += 1;
+      continue;
+    }
+
+    if (MARKDOWN_RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'horizontalRule' });
+      index += 1;
+      continue;
+    }
+
+    if (MARKDOWN_QUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && MARKDOWN_QUOTE_PATTERN.test(lines[index])) {
+        quoteLines.push(lines[index].replace(MARKDOWN_QUOTE_PATTERN, ''));
+        index += 1;
+      }
+      blocks.push({ type: 'blockquote', content: parseMarkdownBlocks(quoteLines) });
+      continue;
+    }
+
+    if (MARKDOWN_LIST_PATTERN.test(line)) {
+      const { list, next } = parseMarkdownList(lines, index);
+      blocks.push(list);
+      index = next;
+      continue;
+    }
+
+    const paragraphLines = [line];
+    index += 1;
+    while (
+      index < lines.length &&
+      !isBlankLine(lines[index]) &&
+      !startsMarkdownBlock(lines[index])
+    ) {
+      paragraphLines.push(lines[index]);
+      index += 1;
+    }
+    blocks.push(parseMarkdownParagraph(paragraphLines));
+  }
+
+  return blocks;
+};
+
+/** Reads `$...$` / `$$...$$` math and numeric character references such as `&#53;`. */
+export const markdownToTipTap = (markdown: string): TipTapNode => ({
+  type: 'doc',
+  content: parseMarkdownBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'))
+});
+
+const markdownMarkDelimiters: Record<string, string> = {
+  bold: '**',
+  italic: '*',
+  strike: '~~',
+  code: '`'
+};
+
+const isMarkdownMark = (mark: TipTapMark) =>
+  mark.type === 'link' || mark.type in markdownMarkDelimiters;
+
+const isSameMark = (a: TipTapMark, b: TipTapMark) =>
+  a.type === b.type && (a.type !== 'link' || a.attrs?.href === b.attrs?.href);
+
+const formatMarkdownDestination = (href: string) =>
+  /[\s()<>\\]/.test(href) ? `<${href.replace(/[<>\\]/g, '\\$&')}>` : href;
+
+type OpenMarkdownMark = {
+  mark: TipTapMark;
+  delimiter: string;
+};
+
+// `**x***y*` would read back as bold "x*", so a run opened right after a
+// closing `*` uses the `_` form instead: `**x**_y_`.
+const alternateMarkdownDelimiters: Record<string, string> = {
+  '*': '_',
+  '**': '__'
+};
+
+const openMarkdownMark = (mark: TipTapMark): OpenMarkdownMark => ({
+  mark,
+  delimiter: mark.type === 'link' ? '[' : markdownMarkDelimiters[mark.type]
+});
+
+const closeMarkdownMark = ({ mark, delimiter }: OpenMarkdownMark) =>
+  mark.type === 'link'
+    ? `](${formatMarkdownDestination(typeof mark.attrs?.href === 'string' ? mark.attrs.href : '')})`
+    : delimiter;
+
+const escapeMarkdownText = (text: string) =>
+  text.replace(/[\\`*_[\]$~]/g, '\\$&').replace(/&(?=#)/g, '\\&');
+
+// A digit right after a closing `$` would stop it from closing the math, so it
+// is written as a character reference instead.
+const escapeDigitAfterMath = (text: string) =>
+  text.replace(/^\d/, (digit) => `&#${digit.charCodeAt(0)};`);
+
+const getCodeFence = (text: string) => {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(longestRun + 1);
+};
+
+const inlineToMarkdown = (nodes: TipTapNode[] | undefined) => {
+  let output = '';
+  let active: OpenMarkdownMark[] = [];
+  let mathEnd = -1;
+
+  const transition = (marks: TipTapMark[]) => {
+    let shared = 0;
+    while (
+      shared < active.length &&
+      shared < marks.length &&
+      isSameMark(active[shared].mark, marks[shared])
+    ) {
+      shared += 1;
+    }
+
+    output += active.slice(shared).reverse().map(closeMarkdownMark).join('');
+    const opened = marks.slice(shared).map(openMarkdownMark);
+    const first = opened[0];
+    if (first && output.endsWith('*') && alternateMarkdownDelimiters[first.delimiter]) {
+      first.delimiter = alternateMarkdownDelimiters[first.delimiter];
+    }
+    output += opened.map((mark) => mark.delimiter).join('');
+    active = [...active.slice(0, shared), ...opened];
+  };
+
+  (nodes ?? []).forEach((node) => {
+    const marks =
+      node.type === 'text'
+        ? (node.marks ?? [])
+            .filter(isMarkdownMark)
+            .sort((a, b) => getMarkRank(a.type) - getMarkRank(b.type))
+        : [];
+    const isCode = marks.some((mark) => mark.type === 'code');
+    transition(marks.filter((mark) => mark.type !== 'code'));
+
+    switch (node.type) {
+      case 'text': {
+        const text = node.text ?? '';
+        if (isCode) {
+          const fence = getCodeFence(text);
+          const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+          output += `${fence}${padding}${text}${padding}${fence}`;
+        } else {
+          const escaped = escapeMarkdownText(text);
+          output += output.length === mathEnd ? escapeDigitAfterMath(escaped) : escaped;
+        }
+        break;
+      }
+      case 'hardBreak':
+        output += '\\\n';
+        break;
+      case 'math_inline':
+        output += `$${getLatexFromNode(node)}$`;
+        mathEnd = output.length;
+        break;
+      case 'image':
+        output += imageToMarkdown(node);
+        break;
+      default:
+        output += escapeMarkdownText(extractText(node));
     }
   });
+
+  transition([]);
+  return output;
 };
 
-export const InlineError = ({
-  title = 'Something went wrong',
-  message,
-  actionLabel,
-  onAction
-}: {
-  title?: string;
+const imageToMarkdown = (node: TipTapNode) => {
+  const src = typeof node.attrs?.src === 'string' ? node.attrs.src : '';
+  const alt = typeof node.attrs?.alt === 'string' ? node.attrs.alt : '';
+  const title = typeof node.attrs?.title === 'string' ? ` "${node.attrs.title}"` : '';
+  return `![${escapeMarkdownText(alt)}](${formatMarkdownDestination(src)}${title})`;
+};
+
+const indentMarkdownItem = (text: string, prefix: string) =>
+  prefix +
+  text
+    .split('\n')
+    .map((line, index) => (index === 0 || !line ? line : `${' '.repeat(prefix.length)}${line}`))
+    .join('\n');
+
+const escapeMarkdownBlockStart = (text: string) =>
+  text.replace(
+    /^(\s*)(#{1,6}(?=\s|$)|>|[-+*](?=\s)|-(?=(?:\s*-){2,}\s*$)|\d+(?=[.)]\s))/gm,
+    (_match, indent: string, marker: string) =>
+      /^\d/.test(marker) ? `${indent}${marker}\\` : `${indent}\\${marker}`
+  );
+
+const nodeToMarkdown = (node: TipTapNode): string => {
+  const childBlocks = () => (node.content ?? []).map(nodeToMarkdown).filter(Boolean);
+
+  switch (node.type) {
+    case 'doc':
+      return childBlocks().join('\n\n');
+    case 'paragraph':
+      return escapeMarkdownBlockStart(inlineToMarkdown(node.content));
+    case 'heading': {
+      const level = typeof node.attrs?.level === 'number' ? clampHeadingLevel(node.attrs.level) : 2;
+      return `${'#'.repeat(level)} ${inlineToMarkdown(node.content)}`;
+    }
+    case 'bulletList':
+      return childBlocks()
+        .map((text) => indentMarkdownItem(text, '- '))
+        .join('\n');
+    case 'orderedList': {
+      const start = typeof node.attrs?.start === 'number' ? node.attrs.start : 1;
+      return childBlocks()
+        .map((text, index) => indentMarkdownItem(text, `${start + index}. `))
+        .join('\n');
+    }
+    case 'listItem':
+      return (node.content ?? [])
+        .map((child, index, children) => {
+          const text = nodeToMarkdown(child);
+          const isLast = index === children.length - 1;
+          const nextIsList = /List$/.test(children[index + 1]?.type ?? '');
+          return isLast ? text : `${text}${nextIsList ? '\n' : '\n\n'}`;
+        })
+        .join('');
+    case 'blockquote':
+      return childBlocks()
+        .join('\n\n')
+        .split('\n')
+        .map((line) => (line ? `> ${line}` : '>'))
+        .join('\n');
+    case 'codeBlock': {
+      const text = node.text ?? extractText(node);
+      const language = typeof node.attrs?.language === 'string' ? node.attrs.language : '';
+      const fence = '`'.repeat(Math.max(3, getCodeFence(text).length));
+      return `${fence}${language}\n${text}\n${fence}`;
+    }
+    case 'horizontalRule':
+      return '---';
+    case 'image':
+      return imageToMarkdown(node);
+    case 'math_block':
+      return `$$\n${getLatexFromNode(node)}\n$$`;
+    case 'text':
+    case 'hardBreak':
+    case 'math_inline':
+      return inlineToMarkdown([node]);
+    default:
+      return escapeMarkdownText(renderTipTapToText(node));
+  }
+};
+
+/** Marks without a Markdown form (underline, highlight, ...) are dropped. */
+export const renderTipTapToMarkdown = (content: TipTapNode | string) =>
+  nodeToMarkdown(normalizeTipTapContent(content)).trim();
+
+export type ValidationCode =
+  | 'invalid_node'
+  | 'invalid_field'
+  | 'unknown_node'
+  | 'unknown_mark'
+  | 'invalid_heading_level'
+  | 'invalid_math'
+  | 'missing_image_src'
+  | 'missing_image_alt'
+  | 'unsafe_url'
+  | 'empty_answers'
+  | 'duplicate_answer_id';
+
+export type ValidationDiagnostic = {
+  code: ValidationCode;
+  severity: 'error' | 'warning';
+  path: string;
   message: string;
-  actionLabel?: string;
-  onAction?: () => void;
-}) => (
-  <div className="inline-error">
-    <div className="inline-error__content">
-      <strong className="inline-error__title">{title}</strong>
-      <span className="inline-error__message">{message}</span>
-    </div>
-    {actionLabel && onAction ? (
-      <button type="button" className="inline-error__action" onClick={onAction}>
-        {actionLabel}
-      </button>
-    ) : null}
-  </div>
-);
+  questionId?: string;
+};
+
+export type ValidationOptions = {
+  /** Math is only checked when a renderer is given, since KaTeX may not be loaded in CI. */
+  katexRenderer?: KatexRenderer;
+  extensions?: TipTapExtensions;
+  urlPolicy?: UrlPolicy;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const invalidField = (path: string, message: string): ValidationDiagnostic => ({
+  code: 'invalid_field',
+  severity: 'error',
+  path,
+  message
+});
+
+const validateMarks = (
+  marks: unknown,
+  path: string,
+  options: ValidationOptions,
+  diagnostics: ValidationDiagnostic[]
+) => {
+  if (!Array.isArray(marks)) {
+    diagnostics.push(invalidField(`${path}.marks`, 'Expected marks to be an array'));
+    return;
+  }
+
+  marks.forEach((mark: TipTapMark, index) => {
+    const markPath = `${path}.marks[${index}]`;
+    if (!isRecord(mark) || typeof mark.type !== 'string') {
+      diagnostics.push(invalidField(markPath, 'Expected a mark object with a string type'));
+      return;
+    }
+
+    if (!isOwnKey(markRenderers, mark.type) && !options.extensions?.marks?.[mark.type]) {
+      diagnostics.push({
+        code: 'unknown_mark',
+        severity: 'error',
+        path: markPath,
+        message: `Unknown mark type: ${mark.type}`
+      });
+    }
+
+    const href = mark.attrs?.href;
+    if (
+      mark.type === 'link' &&
+      typeof href === 'string' &&
+      !sanitizeUrl(href, 'link', options.urlPolicy)
+    ) {
+      diagnostics.push({
+        code: 'unsafe_url',
+        severity: 'error',
+        path: markPath,
+        message: `Link URL is blocked by the URL policy: ${href}`
+      });
+    }
+  });
+};
+
+const validateNode = (
+  node: TipTapNode,
+  path: string,
+  options: ValidationOptions,
+  diagnostics: ValidationDiagnostic[]
+) => {
+  if (!node || typeof node !== 'object' || typeof node.type !== 'string') {
+    diagnostics.push({
+      code: 'invalid_node',
+      severity: 'error',
+      path,
+      message: 'Expected a node object with a string type'
+    });
+    return;
+  }
+
+  const isCustom = Boolean(options.extensions?.nodes?.[node.type]);
+  if (!isCustom && !isOwnKey(nodeRenderers, node.type)) {
+    diagnostics.push({
+      code: 'unknown_node',
+      severity: 'error',
+      path,
+      message: `Unknown node type: ${node.type}`
+    });
+  }
+
+  if (!isCustom) {
+    switch (node.type) {
+      case 'heading': {
+        const level = node.attrs?.level;
+        const isValidLevel =
+          typeof level === 'number' && Number.isInteger(level) && level >= 1 && level <= 6;
+        if (level !== undefined && !isValidLevel) {
+          diagnostics.push({
+            code: 'invalid_heading_level',
+            severity: 'error',
+            path,
+            message: `Heading level must be an integer from 1 to 6, got ${String(level)}`
+          });
+        }
+        break;
+      }
+      case 'image': {
+        const src = typeof node.attrs?.src === 'string' ? node.attrs.src : '';
+        if (!src) {
+          diagnostics.push({
+            code: 'missing_image_src',
+            severity: 'error',
+            path,
+            message: 'Image node is missing src'
+          });
+        } else if (!sanitizeUrl(src, 'image', options.urlPolicy)) {
+          diagnostics.push({
+            code: 'unsafe_url',
+            severity: 'error',
+            path,
+            message: `Image URL is blocked by the URL policy: ${src}`
+          });
+        }
+
+        if (typeof node.attrs?.alt !== 'string' || !node.attrs.alt.trim()) {
+          diagnostics.push({
+            code: 'missing_image_alt',
+            severity: 'warning',
+            path,
+            message: 'Image node has no alt text'
+          });
+        }
+        break;
+      }
+      case 'math_inline':
+      case 'math_block': {
+        if (!options.katexRenderer) {
+          break;
+        }
+
+        try {
+          renderMathToHtml(
+            getLatexFromNode(node),
+            node.type === 'math_block',
+            options.katexRenderer
+          );
+        } catch (error) {
+          diagnostics.push({
+            code: 'invalid_math',
+            severity: 'error',
+            path,
+            message: error instanceof Error ? error.message : 'Formula failed to render'
+          });
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  if (node.marks !== undefined) {
+    validateMarks(node.marks, path, options, diagnostics);
+  }
+
+  if (node.content === undefined) {
+    return;
+  }
+
+  if (!Array.isArray(node.content)) {
+    diagnostics.push(invalidField(`${path}.content`, 'Expected content to be an array'));
+    return;
+  }
+
+  node.content.forEach((child, index) =>
+    validateNode(child, `${path}.content[${index}]`, options, diagnostics)
+  );
+};
+
+export const validateTipTap = (
+  content: TipTapNode | string,
+  options: ValidationOptions = {},
+  path = '$'
+): ValidationDiagnostic[] => {
+  const diagnostics: ValidationDiagnostic[] = [];
+  validateNode(normalizeTipTapContent(content), path, options, diagnostics);
+  return diagnostics;
+};
+
+export const validateQuestion = (
+  question: Question,
+  options: ValidationOptions = {}
+): ValidationDiagnostic[] => {
+  if (!isRecord(question)) {
+    return [invalidField('$', 'Expected a question object')];
+  }
+
+  const diagnostics: ValidationDiagnostic[] = [...validateTipTap(question.stem, options, 'stem')];
+
+  if (typeof question.id !== 'string') {
+    diagnostics.push(invalidField('id', 'Expected the question id to be a string'));
+  }
+
+  const answers: unknown[] = Array.isArray(question.answers) ? question.answers : [];
+  if (!Array.isArray(question.answers)) {
+    diagnostics.push(invalidField('answers', 'Expected answers to be an array'));
+  } else if (question.answers.length === 0 && !isFreeResponseQuestion(question)) {
+    diagnostics.push({
+      code: 'empty_answers',
+      severity: 'error',
+      path: 'answers',
+      message: 'Question has no answer options'
+    });
+  }
+
+  const seenIds = new Set<string>();
+  answers.forEach((answer, index) => {
+    if (!isRecord(answer) || typeof answer.id !== 'string') {
+      diagnostics.push(
+        invalidField(`answers[${index}]`, 'Expected an answer object with a string id')
+      );
+      return;
+    }
+
+    if (seenIds.has(answer.id)) {
+      diagnostics.push({
+        code: 'duplicate_answer_id',
+        severity: 'error',
+        path: `answers[${index}].id`,
+        message: `Duplicate answer id: ${answer.id}`
+      });
+    }
+    seenIds.add(answer.id);
+    diagnostics.push(
+      ...validateTipTap(answer.content as TipTapNode, options, `answers[${index}].content`)
+    );
+    if (answer.feedback) {
+      diagnostics.push(
+        ...validateTipTap(answer.feedback as TipTapNode, options, `answers[${index}].feedback`)
+      );
+    }
+  });
+
+  if (question.hints !== undefined && !Array.isArray(question.hints)) {
+    diagnostics.push(invalidField('hints', 'Expected hints to be an array'));
+  } else {
+    question.hints?.forEach((hint, index) => {
+      diagnostics.push(...validateTipTap(hint, options, `hints[${index}]`));
+    });
+  }
+
+  if (question.explanation) {
+    diagnostics.push(...validateTipTap(question.explanation, options, 'explanation'));
+  }
+
+  return diagnostics.map((diagnostic) => ({ ...diagnostic, questionId: question.id }));
+};
+
+export type AppConfig = {
+  demoMode: boolean;
+  userEntitlement?: Entitlement;
+  entitlementPolicy?: EntitlementPolicy;
+  checkUsage?: CheckUsageTracker;
+  onUpgradeClick?: (feature: GatedFeature) => void;
+};
+
+const defaultConfig: AppConfig = {
+  demoMode: false
+};
+
+const AppConfigContext = createContext<AppConfig>(defaultConfig);
+
+export const AppConfigProvider = ({
+  value,
+  children
+}: {
+  value: AppConfig;
+  children: React.ReactNode;
+}) => <AppConfigContext.Provider value={value}>{children}</AppConfigContext.Provider>;
+
+export const useAppConfig = () => useContext(AppConfigContext);
+
+export type Entitlement = 'free' | 'pro' | 'enterprise';
+
+export type GatedFeature = 'explanation' | 'checks' | 'hints' | 'retries';
+
+export type EntitlementCapabilities = {
+  explanation: boolean;
+  /** Successful answer checks allowed per calendar day; `Infinity` for no limit. */
+  checksPerDay: number;
+  hints: boolean;
+  retries: boolean;
+};
+
+export type EntitlementPolicy = Record<Entitlement, EntitlementCapabilities>;
+
+const unrestrictedCapabilities: EntitlementCapabilities = {
+  explanation: true,
+  checksPerDay: Infinity,
+  hints: true,
+  retries: true
+};
+
+export const defaultEntitlementPolicy: EntitlementPolicy = {
+  free: { explanation: false, checksPerDay: 20, hints: false, retries: false },
+  pro: unrestrictedCapabilities,
+  enterprise: unrestrictedCapabilities
+};
+
+/**
+ * Without `userEntitlement` nothing is gated except what `demoMode` locks, which
+ * keeps configs that predate entitlements behaving as before.
+ */
+export const resolveCapabilities = (config: AppConfig): EntitlementCapabilities => {
+  const policy = config.entitlementPolicy ?? defaultEntitlementPolicy;
+  const capabilities = config.userEntitlement
+    ? policy[config.userEntitlement]
+    : unrestrictedCapabilities;
+
+  return config.demoMode ? { ...capabilities, explanation: false, hints: false } : capabilities;
+};
+
+export type CheckUsageTracker = {
+  getCount: () => number;
+  increment: () => number;
+  subscribe?: (listener: () => void) => () => void;
+};
+
+const getLocalDay = (date: Date) =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join('-');
+
+export const createCheckUsageTracker = ({
+  storage,
+  key = 'question-card:check-usage',
+  now = () => new Date()
+}: {
+  storage?: Storage;
+  key?: string;
+  now?: () => Date;
+} = {}): CheckUsageTracker => {
+  let usage = { day: '', count: 0 };
+  const listeners = new Set<() => void>();
+
+  const read = () => {
+    if (storage) {
+      try {
+        const stored = JSON.parse(storage.getItem(key) ?? 'null') as typeof usage | null;
+        if (stored && typeof stored.day === 'string' && typeof stored.count === 'number') {
+          usage = stored;
+        }
+      } catch (error) {
+      }
+    }
+
+    return usage.day === getLocalDay(now()) ? usage.count : 0;
+  };
+
+  return {
+    getCount: read,
+    increment: () => {
+      usage = { day: getLocalDay(now()), count: read() + 1 };
+      try {
+        storage?.setItem(key, JSON.stringify(usage));
+      } catch (error) {
+      }
+
+      listeners.forEach((listener) => listener());
+      return usage.count;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+const getBrowserStorage = () => {
+  try {
+    return globalThis.localStorage ?? undefined;
+  } catch (error) {
+    // Reading `localStorage` throws where storage is disabled, e.g. in sandboxed frames.
+    return undefined;
+  }
+};
+
+const defaultCheckUsageTracker = createCheckUsageTracker({ storage: getBrowserStorage() });
+
+const noopUnsubscribe = () => undefined;
+
+export const useEntitlements = () => {
+  const config = useAppConfig();
+  const capabilities = resolveCapabilities(config);
+  const tracker = config.checkUsage ?? defaultCheckUsageTracker;
+  const subscribe = useCallback(
+    (listener: () => void) => tracker.subscribe?.(listener) ?? noopUnsubscribe,
+    [tracker]
+  );
+  const checksUsed = useSyncExternalStore(subscribe, tracker.getCount, tracker.getCount);
+
+  const recordCheck = useCallback(() => {
+    tracker.increment();
+  }, [tracker]);
+
+  const canCheck = useCallback(
+    () => tracker.getCount() < capabilities.checksPerDay,
+    [capabilities.checksPerDay, tracker]
+  );
+
+  const requestUpgrade = useCallback(
+    (feature: GatedFeature) => config.onUpgradeClick?.(feature),
+    [config.onUpgradeClick]
+  );
+
+  return {
+    entitlement: config.userEntitlement,
+    capabilities,
+    checksRemaining: Math.max(capabilities.checksPerDay - checksUsed, 0),
+    canCheck,
+    recordCheck,
+    requestUpgrade
+  };
+};
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageValues = Record<string, string | number>;
+
+const englishMessages = {
+  'math.renderFailed': '(formula failed to render)',
+  'code.copy': 'Copy',
+  'code.copied': 'Copied',
+  'code.copyFailed': 'Copy failed',
+  'stem.renderFailed': 'Content failed to render.',
+  'inlineError.title': 'Something went wrong',
+  'answerOptions.correct': 'Correct',
+  'answerOptions.incorrect': 'Incorrect',
+  'answerOptions.missed': 'Missed',
+  'actionBar.check': 'Check Answer',
+  'actionBar.checking': 'Checking...',
+  'actionBar.correct': 'Correct answer.',
+  'actionBar.partiallyCorrect': 'Partially correct.',
+  'actionBar.incorrect': 'Answer is incorrect.',
+  'actionBar.failed': 'Check failed. Try again.',
+  'actionBar.prompt': 'Select an answer to continue.',
+  'actionBar.responsePrompt': 'Type an answer to continue.',
+  'actionBar.timedOut': 'Time is up.',
+  'timer.label': 'Time left',
+  'timer.warning': {
+    one: '{count} second left.',
+    other: '{count} seconds left.'
+  },
+  'timer.expired': 'Time is up.',
+  'response.numericPlaceholder': 'Enter a number',
+  'response.textPlaceholder': 'Type your answer',
+  'response.correctAnswer': 'Correct answer: {answer}',
+  'response.invalidNumber': 'Enter a number with a period for decimals, e.g. 3.5, 1/2 or 2e-3.',
+  'response.wrongUnit': 'Check the unit of your answer.',
+  'hints.show': 'Show hint',
+  'hints.showNext': 'Show next hint ({index} of {count})',
+  'hints.penalty': 'Each hint lowers the score by {percent}%.',
+  'hints.label': 'Hint {index}',
+  'hints.renderFailed': 'Hint failed to render.',
+  'answerFeedback.locked': 'Feedback on your answer is available in the full version.',
+  'answerFeedback.renderFailed': 'Answer feedback failed to render.',
+  'explanation.unavailable': 'Explanation is not available for this question.',
+  'explanation.renderFailed': 'Explanation failed to render.',
+  'explanation.locked': 'Explanation is available in the full version.',
+  'explanation.upgrade': 'Upgrade Access',
+  'questionCard.renderErrorTitle': 'Some content failed to render',
+  'questionCard.checkErrorTitle': 'Answer check failed',
+  'questionCard.retry': 'Retry',
+  'locked.checks': {
+    one: 'You have used your {count} answer check for today.',
+    other: 'You have used all {count} answer checks for today.'
+  },
+  'locked.retries': 'Trying another answer is available in the full version.',
+  'locked.hints': 'Hints are available in the full version.',
+  'locked.upgrade': 'Upgrade Access',
+  'checkError.network': 'Could not reach the server. Check your connection and try again.',
+  'checkError.timeout': 'The server took too long to respond. Please try again.',
+  'checkError.unauthorized': 'Your session has expired. Sign in again to check answers.',
+  'checkError.rate_limited': 'Too many attempts. Wait a moment and try again.',
+  'checkError.server': 'The server could not check your answer. Please try again.',
+  'checkError.http': 'The answer could not be checked.',
+  'checkError.invalid_response': 'The server returned an unexpected response.',
+  'checkError.unknown': 'Check failed. Please try again.',
+  'quiz.progress': 'Question {index} of {count}',
+  'quiz.stepLabel': 'Question {index}: {status}',
+  'quiz.status.unanswered': 'Unanswered',
+  'quiz.status.correct': 'Correct',
+  'quiz.status.incorrect': 'Incorrect',
+  'quiz.status.skipped': 'Skipped',
+  'quiz.score': 'Score: {score} / {max}',
+  'quiz.previous': 'Previous',
+  'quiz.next': 'Next',
+  'quiz.skip': 'Skip',
+  'quiz.finish': 'Finish',
+  'quiz.complete': 'Quiz complete',
+  'quiz.restart': 'Restart',
+  'quiz.status.answered': 'Answered',
+  'exam.prompt': 'Select an answer. It is graded when you submit the exam.',
+  'exam.saved': 'Answer saved. You can change it until you submit the exam.',
+  'exam.answeredCount': '{count} of {total} answered',
+  'exam.unanswered': {
+    one: '{count} question is unanswered.',
+    other: '{count} questions are unanswered.'
+  },
+  'exam.submit': 'Submit Exam',
+  'exam.submitting': 'Submitting...',
+  'exam.submitErrorTitle': 'Exam could not be submitted',
+  'exam.reviewTitle': 'Exam results',
+  'exam.questionLabel': 'Question {index}',
+  'exam.notAnswered': 'Not answered'
+};
+
+export type MessageKey = keyof typeof englishMessages;
+
+export type MessageCatalog = Record<MessageKey, Message>;
+
+export const defaultMessages: MessageCatalog = englishMessages;
+
+const selectPluralForm = (message: PluralMessage, count: unknown, locale: string) => {
+  if (typeof count !== 'number') {
+    return message.other;
+  }
+
+  if (count === 0 && message.zero !== undefined) {
+    return message.zero;
+  }
+
+  return message[new Intl.PluralRules(locale).select(count)] ?? message.other;
+};
+
+/**
+ * Resolves plural forms by the `count` value and replaces `{name}` placeholders.
+ * Numbers are formatted for the locale; unknown placeholders are left as-is.
+ */
+export const formatMessage = (message: Message, values: MessageValues = {}, locale = 'en') => {
+  const template =
+    typeof message === 'string' ? message : selectPluralForm(message, values.count, locale);
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = values[name];
+    if (value === undefined) {
+      return match;
+    }
+
+    return typeof value === 'number'
+      ? new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(value)
+      : value;
+  });
+};
+
+type MessagesContextValue = {
+  locale: string;
+  messages: MessageCatalog;
+};
+
+const MessagesContext = createContext<MessagesContextValue>({
+  locale: 'en',
+  messages: defaultMessages
+});
+
+export const MessagesProvider = ({
+  locale,
+  messages,
+  children
+}: {
+  locale?: string;
+  messages?: Partial<MessageCatalog>;
+  children: React.ReactNode;
+}) => {
+  const parent = useContext(MessagesContext);
+  const value = useMemo(
+    () => ({
+      locale: locale ?? parent.locale,
+      messages: messages ? { ...parent.messages, ...messages } : parent.messages
+    }),
+    [locale, messages, parent]
+  );
+
+  return <MessagesContext.Provider value={value}>{children}</MessagesContext.Provider>;
+};
+
+export const useMessages = (overrides?: Partial<MessageCatalog>) => {
+  const { locale, messages } = useContext(MessagesContext);
+
+  return useCallback(
+    (key: MessageKey, values?: MessageValues) =>
+      formatMessage(overrides?.[key] ?? messages[key], values, locale),
+    [locale, messages, overrides]
+  );
+};
+
+const DEFAULT_DELAY_MS = 500;
+const DEFAULT_FAIL_RATE = 0.15;
+
+const getCacheKey = (questionId: string, answerId: string) => `${questionId}::${answerId}`;
+
+const getMultiCacheKey = (questionId: string, answerIds: string[]) =>
+  `${questionId}::${[...answerIds].sort().join(',')}`;
+
+const abortError = () => {
+  const error = new Error('Request aborted');
+  (error as Error & { name: string }).name = 'AbortError';
+  return error;
+};
+
+export type CheckAnswerOptions = {
+  signal?: AbortSignal;
+  delayMs?: number;
+  failRate?: number;
+  useCache?: boolean;
+};
+
+const simulateRequest = <T,>(
+  produce: () => T,
+  { signal, delayMs, error }: { signal?: AbortSignal; delayMs: number; error?: CheckAnswerError }
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      if (error) {
+        reject(error);
+        return;
+      }
+
+      resolve(produce());
+    }, delayMs);
+
+    if (signal) {
+      signal.addEventListener(
+        'abort',
+        () => {
+          clearTimeout(timer);
+          reject(abortError());
+        },
+        { once: true }
+      );
+    }
+  });
+
+/**
+ * Grades a multi-select attempt. Each wrong pick cancels one correct pick, so
+ * selecting every option does not earn credit.
+ */
+export const gradeMultipleAnswers = (
+  correctAnswerIds: string[],
+  checkedAnswerIds: string[]
+): MultiCheckResult => {
+  const correct = new Set(correctAnswerIds);
+  const checked = new Set(checkedAnswerIds);
+  const correctSelectionIds = checkedAnswerIds.filter((id) => correct.has(id));
+  const wrongAnswerIds = checkedAnswerIds.filter((id) => !correct.has(id));
+  const missedAnswerIds = correctAnswerIds.filter((id) => !checked.has(id));
+  const score =
+    correct.size === 0
+      ? Number(wrongAnswerIds.length === 0)
+      : Math.max(0, (correctSelectionIds.length - wrongAnswerIds.length) / correct.size);
+
+  return {
+    isCorrect: missedAnswerIds.length === 0 && wrongAnswerIds.length === 0,
+    correctAnswerIds: [...correctAnswerIds],
+    checkedAnswerIds: [...checkedAnswerIds],
+    correctSelectionIds,
+    missedAnswerIds,
+    wrongAnswerIds,
+    score
+  };
+};
+
+export type NumericAnswerKey = {
+  value: number;
+  absoluteTolerance?: number;
+  /** Fraction of `value`, e.g. `0.01` accepts answers within 1%. */
+  relativeTolerance?: number;
+  /** Canonical unit; compared ignoring whitespace but not case (`mm` is not `Mm`). */
+  unit?: string;
+  unitAliases?: string[];
+  /** By default a bare number is accepted even when `unit` is set. */
+  requireUnit?: boolean;
+};
+
+export type TextAnswerKey = {
+  accepted: string[];
+  caseSensitive?: boolean;
+  ignorePunctuation?: boolean;
+};
+
+export type ResponseAnswerKey =
+  | ({ kind: 'numeric' } & NumericAnswerKey)
+  | ({ kind: 'text' } & TextAnswerKey);
+
+const DECIMAL_SOURCE = '(?:\\d+(?:\\.\\d*)?|\\.\\d+)';
+
+const numericResponsePatterns: Array<[RegExp, (match: RegExpExecArray) => number]> = [
+  [
+    /^(\d+)\s+(\d+)\s*\/\s*(\d+)(?=\s|$|[^\d.\/])/,
+    (match) => Number(match[1]) + Number(match[2]) / Number(match[3])
+  ],
+  [
+    new RegExp(`^(${DECIMAL_SOURCE})\\s*\\/\\s*(${DECIMAL_SOURCE})`),
+    (match) => Number(match[1]) / Number(match[2])
+  ],
+  [
+    new RegExp(`^(${DECIMAL_SOURCE})\\s*[x×*·]\\s*10\\^\\s*([+-]?\\d+)`),
+    (match) => Number(match[1]) * 10 ** Number(match[2])
+  ],
+  [new RegExp(`^(${DECIMAL_SOURCE}(?:e[+-]?\\d+)?)`, 'i'), (match) => Number(match[1])]
+];
+
+export const parseNumericResponse = (input: string): { value: number; unit: string } | null => {
+  const normalized = input.trim().replace(/−/g, '-');
+  const sign = /^[+-]/.test(normalized) && normalized[0] === '-' ? -1 : 1;
+  const unsigned = normalized.replace(/^[+-]\s*/, '');
+
+  for (const [pattern, toValue] of numericResponsePatterns) {
+    const match = pattern.exec(unsigned);
+    if (!match) {
+      continue;
+    }
+
+    const value = toValue(match);
+    const unit = unsigned.slice(match[0].length).trim();
+    // Leftovers such as `,5` or `.3.4` are a malformed number rather than a unit.
+    if (!Number.isFinite(value) || /^[\d.,\/]/.test(unit)) {
+      return null;
+    }
+
+    return { value: sign * value, unit };
+  }
+
+  return null;
+};
+
+const normalizeUnit = (unit: string) => unit.replace(/\s+/g, '');
+
+export const gradeNumericResponse = (
+  response: string,
+  key: NumericAnswerKey
+): ResponseCheckResult => {
+  const correctResponse = key.unit ? `${key.value} ${key.unit}` : String(key.value);
+  const base = { checkedResponse: response, correctResponse };
+  const parsed = parseNumericResponse(response);
+  if (!parsed) {
+    return { ...base, isCorrect: false, feedback: 'invalid_number' };
+  }
+
+  const acceptedUnits = key.unit ? [key.unit, ...(key.unitAliases ?? [])].map(normalizeUnit) : [];
+  const isUnitAccepted = parsed.unit
+    ? acceptedUnits.includes(normalizeUnit(parsed.unit))
+    : !(key.unit && key.requireUnit);
+  if (!isUnitAccepted) {
+    return { ...base, isCorrect: false, feedback: 'wrong_unit' };
+  }
+
+  // The epsilon term absorbs float noise such as 0.1 + 0.2 for exact keys.
+  const tolerance = Math.max(
+    key.absoluteTolerance ?? 0,
+    (key.relativeTolerance ?? 0) * Math.abs(key.value),
+    1e-9 * Math.max(1, Math.abs(key.value))
+  );
+
+  return { ...base, isCorrect: Math.abs(parsed.value - key.value) <= tolerance };
+};
+
+const normalizeTextResponse = (text: string, key: TextAnswerKey) => {
+  let normalized = text.normalize('NFKC');
+  if (key.ignorePunctuation) {
+    normalized = normalized.replace(/\p{P}/gu, '');
+  }
+  normalized = normalized.trim().replace(/\s+/g, ' ');
+
+  return key.caseSensitive ? normalized : normalized.toLocaleLowerCase();
+};
+
+export const gradeTextResponse = (response: string, key: TextAnswerKey): ResponseCheckResult => {
+  const normalized = normalizeTextResponse(response, key);
+
+  return {
+    isCorrect: key.accepted.some((accepted) => normalizeTextResponse(accepted, key) === normalized),
+    checkedResponse: response,
+    correctResponse: key.accepted[0] ?? ''
+  };
+};
+
+export const gradeResponse = (response: string, key: ResponseAnswerKey) =>
+  key.kind === 'numeric' ? gradeNumericResponse(response, key) : gradeTextResponse(response, key);
+
+export type MockScriptStep = {
+  latencyMs?: number;
+  error?: CheckErrorCode;
+};
+
+export type MockCheckBackendConfig = {
+  /**
+   * Correct answer id(s) per question. For questions missing here the first
+   * submitted answer becomes the correct one.
+   */
+  answerKey?: Record<string, string | string[]>;
+  /** Keys for numeric and text questions. Unknown questions accept their first response. */
+  responseKey?: Record<string, ResponseAnswerKey>;
+  latencyMs?: number | [number, number];
+  failRate?: number;
+  /** One step is consumed per request; `failRate` only applies once the script runs out. */
+  script?: MockScriptStep[];
+  /** Per-question scripts, consumed before `script`; batches of several only use `script`. */
+  scriptByQuestion?: Record<string, MockScriptStep[]>;
+  seed?: string;
+  cacheResults?: boolean;
+};
+
+export type MockCheckCall = {
+  questionId: string;
+  answerIds: string[];
+  outcome: 'success' | 'aborted' | CheckErrorCode;
+};
+
+export type AnswerSubmission = {
+  questionId: string;
+  answerIds: string[];
+  response?: string;
+  /**
+   * Whether the question is multiple-choice, so that one id or none is still
+   * graded as such; without it, only more than one id is.
+   */
+  multiple?: boolean;
+};
+
+const isMultipleSubmission = (submission: AnswerSubmission) =>
+  submission.multiple ?? submission.answerIds.length > 1;
+
+export type MockCheckBackend = {
+  checkAnswer: (
+    questionId: string,
+    answerId: string,
+    options?: CheckAnswerOptions
+  ) => Promise<CheckResult>;
+  checkMultipleAnswers: (
+    questionId: string,
+    answerIds: string[],
+    options?: CheckAnswerOptions
+  ) => Promise<MultiCheckResult>;
+  checkResponse: (
+    questionId: string,
+    response: string,
+    options?: CheckAnswerOptions
+  ) => Promise<ResponseCheckResult>;
+  checkAnswerBatch: (
+    submissions: AnswerSubmission[],
+    options?: CheckAnswerOptions
+  ) => Promise<AnyCheckResult[]>;
+  readonly calls: MockCheckCall[];
+  reset: () => void;
+};
+
+export const createMockCheckBackend = (config: MockCheckBackendConfig = {}): MockCheckBackend => {
+  const {
+    answerKey = {},
+    responseKey = {},
+    latencyMs = DEFAULT_DELAY_MS,
+    failRate = 0,
+    script = [],
+    scriptByQuestion = {},
+    seed,
+    cacheResults = false
+  } = config;
+
+  let random = seed === undefined ? Math.random : createSeededRandom(seed);
+  let scriptIndex = 0;
+  let questionScriptIndexes = new Map<string, number>();
+  const learnedAnswerIds = new Map<string, string[]>();
+  const learnedResponses = new Map<string, string>();
+  const resultCache = new Map<string, CheckResult>();
+  const multiResultCache = new Map<string, MultiCheckResult>();
+  const calls: MockCheckCall[] = [];
+
+  const nextStep = (questionId?: string): MockScriptStep | undefined => {
+    if (questionId !== undefined) {
+      const questionScript = scriptByQuestion[questionId];
+      const questionIndex = questionScriptIndexes.get(questionId) ?? 0;
+      if (questionScript && questionIndex < questionScript.length) {
+        questionScriptIndexes.set(questionId, questionIndex + 1);
+        return questionScript[questionIndex];
+      }
+    }
+
+    if (scriptIndex < script.length) {
+      scriptIndex += 1;
+      return script[scriptIndex - 1];
+    }
+
+    return undefined;
+  };
+
+  const getLatency = () =>
+    Array.isArray(latencyMs)
+      ? Math.round(latencyMs[0] + random() * (latencyMs[1] - latencyMs[0]))
+      : latencyMs;
+
+  const getCorrectAnswerIds = (questionId: string, answerIds: string[]) => {
+    const keyed = answerKey[questionId];
+    if (keyed !== undefined) {
+      return Array.isArray(keyed) ? keyed : [keyed];
+    }
+
+    if (!learnedAnswerIds.has(questionId) && answerIds.length > 0) {
+      learnedAnswerIds.set(questionId, [...answerIds]);
+    }
+
+    return learnedAnswerIds.get(questionId) ?? answerIds;
+  };
+
+  const respond = <T,>(
+    requests: Array<Pick<MockCheckCall, 'questionId' | 'answerIds'>>,
+    grade: () => T,
+    options: CheckAnswerOptions
+  ): Promise<T> => {
+    const step = nextStep(requests.length === 1 ? requests[0].questionId : undefined);
+    const errorCode =
+      step?.error ?? (!step && random() < (options.failRate ?? failRate) ? 'network' : undefined);
+    const delayMs = options.delayMs ?? step?.latencyMs ?? getLatency();
+    const error = errorCode
+      ? new CheckAnswerError(
+          errorCode,
+          errorCode === 'network' ? 'Network error. Please try again.' : `Mock ${errorCode} error`
+        )
+      : undefined;
+
+    const record = (outcome: MockCheckCall['outcome']) =>
+      requests.forEach(({ questionId, answerIds }) =>
+        calls.push({ questionId, answerIds: [...answerIds], outcome })
+      );
+
+    return simulateRequest(grade, { signal: options.signal, delayMs, error }).then(
+      (result) => {
+        record('success');
+        return result;
+      },
+      (reason) => {
+        record(reason instanceof CheckAnswerError ? reason.code : 'aborted');
+        throw reason;
+      }
+    );
+  };
+
+  const gradeSingleAnswer = (questionId: string, answerId: string): CheckResult => {
+    const correctAnswerIds = getCorrectAnswerIds(questionId, [answerId]);
+    const isCorrect = correctAnswerIds.includes(answerId);
+    return {
+      isCorrect,
+      correctAnswerId: isCorrect ? answerId : correctAnswerIds[0],
+      checkedAnswerId: answerId
+    };
+  };
+
+  const gradeTypedResponse = (questionId: string, response: string) => {
+    const key = responseKey[questionId];
+    if (key) {
+      return gradeResponse(response, key);
+    }
+
+    if (!learnedResponses.has(questionId) && response.trim() !== '') {
+      learnedResponses.set(questionId, response);
+    }
+
+    return gradeTextResponse(response, { accepted: [learnedResponses.get(questionId) ?? ''] });
+  };
+
+  const mockCheckAnswer = (
+    questionId: string,
+    answerId: string,
+    options: CheckAnswerOptions = {}
+  ): Promise<CheckResult> => {
+    const { useCache = cacheResults } = options;
+    const cacheKey = getCacheKey(questionId, answerId);
+    const cached = useCache ? resultCache.get(cacheKey) : undefined;
+    if (cached) {
+      return Promise.resolve(cached);
+    }
+
+    return respond(
+      [{ questionId, answerIds: [answerId] }],
+      () => {
+        const result = gradeSingleAnswer(questionId, answerId);
+
+        if (useCache) {
+          resultCache.set(cacheKey, result);
+        }
+
+        return result;
+      },
+      options
+    );
+  };
+
+  const mockCheckMultipleAnswers = (
+    questionId: string,
+    answerIds: string[],
+    options: CheckAnswerOptions = {}
+  ): Promise<MultiCheckResult> => {
+    const { useCache = cacheResults } = options;
+    const cacheKey = getMultiCacheKey(questionId, answerIds);
+    const cached = useCache ? multiResultCache.get(cacheKey) : undefined;
+    if (cached) {
+      return Promise.resolve(cached);
+    }
+
+    return respond(
+      [{ questionId, answerIds }],
+      () => {
+        const result = gradeMultipleAnswers(getCorrectAnswerIds(questionId, answerIds), answerIds);
+
+        if (useCache) {
+          multiResultCache.set(cacheKey, result);
+        }
+
+        return result;
+      },
+      options
+    );
+  };
+
+  const mockCheckResponse = (
+    questionId: string,
+    response: string,
+    options: CheckAnswerOptions = {}
+  ): Promise<ResponseCheckResult> =>
+    respond(
+      [{ questionId, answerIds: [response] }],
+      () => gradeTypedResponse(questionId, response),
+      options
+    );
+
+  const mockCheckAnswerBatch = (
+    submissions: AnswerSubmission[],
+    options: CheckAnswerOptions = {}
+  ): Promise<AnyCheckResult[]> =>
+    respond(
+      submissions.map(({ questionId, answerIds, response }) => ({
+        questionId,
+        answerIds: response === undefined ? answerIds : [response]
+      })),
+      () =>
+        submissions.map((submission): AnyCheckResult => {
+          const { questionId, answerIds, response } = submission;
+          if (response !== undefined) {
+            return gradeTypedResponse(questionId, response);
+          }
+
+          if (isMultipleSubmission(submission)) {
+            return gradeMultipleAnswers(getCorrectAnswerIds(questionId, answerIds), answerIds);
+          }
+
+          return answerIds.length > 0
+            ? gradeSingleAnswer(questionId, answerIds[0])
+            : {
+                isCorrect: false,
+                correctAnswerId: getCorrectAnswerIds(questionId, [])[0] ?? '',
+                checkedAnswerId: ''
+              };
+        }),
+      options
+    );
+
+  return {
+    checkAnswer: mockCheckAnswer,
+    checkMultipleAnswers: mockCheckMultipleAnswers,
+    checkResponse: mockCheckResponse,
+    checkAnswerBatch: mockCheckAnswerBatch,
+    calls,
+    reset: () => {
+      random = seed === undefined ? Math.random : createSeededRandom(seed);
+      scriptIndex = 0;
+      questionScriptIndexes = new Map();
+      learnedAnswerIds.clear();
+      learnedResponses.clear();
+      resultCache.clear();
+      multiResultCache.clear();
+      calls.length = 0;
+    }
+  };
+};
+
+const defaultMockCheckBackend = createMockCheckBackend({
+  failRate: DEFAULT_FAIL_RATE,
+  cacheResults: true
+});
+
+export const checkAnswer = (
+  questionId: string,
+  answerId: string,
+  options: CheckAnswerOptions = {}
+): Promise<CheckResult> => defaultMockCheckBackend.checkAnswer(questionId, answerId, options);
+
+export const checkMultipleAnswers = (
+  questionId: string,
+  answerIds: string[],
+  options: CheckAnswerOptions = {}
+): Promise<MultiCheckResult> =>
+  defaultMockCheckBackend.checkMultipleAnswers(questionId, answerIds, options);
+
+export const checkResponse = (
+  questionId: string,
+  response: string,
+  options: CheckAnswerOptions = {}
+): Promise<ResponseCheckResult> =>
+  defaultMockCheckBackend.checkResponse(questionId, response, options);
+
+export const checkAnswerBatch = (
+  submissions: AnswerSubmission[],
+  options: CheckAnswerOptions = {}
+): Promise<AnyCheckResult[]> => defaultMockCheckBackend.checkAnswerBatch(submissions, options);
+
+export const resetMockCheckAnswers = () => defaultMockCheckBackend.reset();
+
+export class CheckAnswerError extends Error {
+  code: CheckErrorCode;
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(
+    code: CheckErrorCode,
+    message: string,
+    options: { status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'CheckAnswerError';
+    this.code = code;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable() {
+    return (
+      this.code === 'network' ||
+      this.code === 'timeout' ||
+      this.code === 'rate_limited' ||
+      this.code === 'server'
+    );
+  }
+}
+
+export type HttpCheckTransportConfig = {
+  baseUrl: string;
+  buildUrl?: (questionId: string) => string;
+  /** Endpoint of `checkAnswerBatch`; defaults to `{baseUrl}/check-batch`. */
+  buildBatchUrl?: () => string;
+  headers?: Record<string, string>;
+  getAuthToken?: () => string | null | undefined | Promise<string | null | undefined>;
+  timeoutMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  fetch?: typeof fetch;
+};
+
+const DEFAULT_HTTP_TIMEOUT_MS = 10000;
+const DEFAULT_HTTP_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 300;
+const DEFAULT_MAX_RETRY_DELAY_MS = 5000;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const toHttpError = (response: Response) => {
+  const { status } = response;
+  const retryAfterSeconds = Number(response.headers.get('Retry-After'));
+  const retryAfterMs =
+    Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0
+      ? retryAfterSeconds * 1000
+      : undefined;
+
+  if (status === 401 || status === 403) {
+    return new CheckAnswerError('unauthorized', `Request was rejected (${status})`, { status });
+  }
+
+  if (status === 408) {
+    return new CheckAnswerError('timeout', 'Request timed out (408)', { status });
+  }
+
+  if (status === 429) {
+    return new CheckAnswerError('rate_limited', 'Too many requests (429)', {
+      status,
+      retryAfterMs
+    });
+  }
+
+  if (status >= 500) {
+    return new CheckAnswerError('server', `Server error (${status})`, { status, retryAfterMs });
+  }
+
+  return new CheckAnswerError('http', `Request failed (${status})`, { status });
+};
+
+const postJson = (
+  url: string,
+  body: unknown,
+  config: HttpCheckTransportConfig,
+  signal?: AbortSignal
+): Promise<unknown> => {
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+
+  const fetchImpl = config.fetch ?? globalThis.fetch;
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, config.timeoutMs ?? DEFAULT_HTTP_TIMEOUT_MS);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  const authToken = Promise.resolve()
+    .then(() => config.getAuthToken?.())
+    .catch(() => {
+      throw new CheckAnswerError('unauthorized', 'Could not get an auth token');
+    });
+
+  return authToken
+    .then((token) =>
+      fetchImpl(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+          ...config.headers,
+          ...(token ? { Authorization: `Bearer ${token}` } : {})
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      })
+    )
+    .then((response) => {
+      if (!response.ok) {
+        throw toHttpError(response);
+      }
+
+      return response.json().catch(() => {
+        throw new CheckAnswerError('invalid_response', 'Response is not valid JSON');
+      });
+    })
+    .catch((error) => {
+      if (signal?.aborted) {
+        throw abortError();
+      }
+
+      if (timedOut) {
+        throw new CheckAnswerError('timeout', 'Request timed out');
+      }
+
+      if (error instanceof CheckAnswerError) {
+        throw error;
+      }
+
+      throw new CheckAnswerError('network', 'Network request failed');
+    })
+    .finally(() => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    });
+};
+
+const postJsonWithRetry = (
+  url: string,
+  body: unknown,
+  config: HttpCheckTransportConfig,
+  signal?: AbortSignal
+) => {
+  const {
+    retries = DEFAULT_HTTP_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    maxRetryDelayMs = DEFAULT_MAX_RETRY_DELAY_MS
+  } = config;
+
+  const attempt = (index: number): Promise<unknown> =>
+    postJson(url, body, config, signal).catch((error) => {
+      if (!(error instanceof CheckAnswerError) || !error.retryable || index >= retries) {
+        throw error;
+      }
+
+      const backoff = Math.max(retryDelayMs * 2 ** index, error.retryAfterMs ?? 0);
+      return wait(Math.min(backoff, maxRetryDelayMs), signal).then(() => attempt(index + 1));
+    });
+
+  return attempt(0);
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const parseCheckPayload = (payload: unknown, answerId: string): CheckResult => {
+  const data = payload as Partial<CheckResult> | null;
+  if (typeof data?.isCorrect !== 'boolean' || typeof data.correctAnswerId !== 'string') {
+    throw new CheckAnswerError('invalid_response', 'Unexpected check response');
+  }
+
+  return {
+    isCorrect: data.isCorrect,
+    correctAnswerId: data.correctAnswerId,
+    checkedAnswerId: answerId
+  };
+};
+
+const parseMultiCheckPayload = (payload: unknown, answerIds: string[]): MultiCheckResult => {
+  const correctAnswerIds = (payload as { correctAnswerIds?: unknown } | null)?.correctAnswerIds;
+  if (!isStringArray(correctAnswerIds)) {
+    throw new CheckAnswerError('invalid_response', 'Unexpected check response');
+  }
+
+  return gradeMultipleAnswers(correctAnswerIds, answerIds);
+};
+
+const parseResponseCheckPayload = (payload: unknown, response: string): ResponseCheckResult => {
+  const data = payload as Partial<ResponseCheckResult> | null;
+  if (typeof data?.isCorrect !== 'boolean' || typeof data.correctResponse !== 'string') {
+    throw new CheckAnswerError('invalid_response', 'Unexpected check response');
+  }
+
+  return {
+    isCorrect: data.isCorrect,
+    checkedResponse: response,
+    correctResponse: data.correctResponse,
+    ...(data.feedback === 'invalid_number' || data.feedback === 'wrong_unit'
+      ? { feedback: data.feedback }
+      : {})
+  };
+};
+
+/**
+ * Creates `checkAnswer`/`checkMultipleAnswers` implementations backed by HTTP.
+ * Each check is a `POST {baseUrl}/questions/{questionId}/check`:
+ * - single: `{ answerId }` -> `{ isCorrect: boolean, correctAnswerId: string }`
+ * - multiple: `{ answerIds }` -> `{ correctAnswerIds: string[] }`, graded locally
+ *   with `gradeMultipleAnswers`.
+ * - free response: `{ response }` -> `{ isCorrect: boolean, correctResponse: string,
+ *   feedback?: ResponseFeedback }`; the server grades, e.g. with `gradeResponse`.
+ * `checkAnswerBatch` posts `{ submissions }` to `{baseUrl}/check-batch`, each item
+ * being `{ questionId }` plus one of the bodies above, and expects `{ results }` with
+ * one response of the matching shape per submission, in order. An unanswered
+ * single-choice question is sent as `{ answerId: null }`.
+ * The result can be spread into `QuestionCard` props.
+ */
+export const createHttpCheckTransport = (config: HttpCheckTransportConfig) => {
+  const buildUrl =
+    config.buildUrl ??
+    ((questionId: string) =>
+      `${config.baseUrl.replace(/\/+$/, '')}/questions/${encodeURIComponent(questionId)}/check`);
+  const buildBatchUrl =
+    config.buildBatchUrl ?? (() => `${config.baseUrl.replace(/\/+$/, '')}/check-batch`);
+
+  const httpCheckAnswer = (
+    questionId: string,
+    answerId: string,
+    options: CheckAnswerOptions = {}
+  ): Promise<CheckResult> =>
+    postJsonWithRetry(buildUrl(questionId), { answerId }, config, options.signal).then(
+      (payload) => parseCheckPayload(payload, answerId)
+    );
+
+  const httpCheckMultipleAnswers = (
+    questionId: string,
+    answerIds: string[],
+    options: CheckAnswerOptions = {}
+  ): Promise<MultiCheckResult> =>
+    postJsonWithRetry(buildUrl(questionId), { answerIds }, config, options.signal).then(
+      (payload) => parseMultiCheckPayload(payload, answerIds)
+    );
+
+  const httpCheckResponse = (
+    questionId: string,
+    response: string,
+    options: CheckAnswerOptions = {}
+  ): Promise<ResponseCheckResult> =>
+    postJsonWithRetry(buildUrl(questionId), { response }, config, options.signal).then(
+      (payload) => parseResponseCheckPayload(payload, response)
+    );
+
+  const httpCheckAnswerBatch = (
+    submissions: AnswerSubmission[],
+    options: CheckAnswerOptions = {}
+  ): Promise<AnyCheckResult[]> => {
+    const body = submissions.map((submission) => {
+      const { questionId, answerIds, response } = submission;
+      if (response !== undefined) {
+        return { questionId, response };
+      }
+
+      return isMultipleSubmission(submission)
+        ? { questionId, answerIds }
+        : { questionId, answerId: answerIds[0] ?? null };
+    });
+
+    return postJsonWithRetry(buildBatchUrl(), { submissions: body }, config, options.signal).then(
+      (payload) => {
+        const results = (payload as { results?: unknown } | null)?.results;
+        if (!Array.isArray(results) || results.length !== submissions.length) {
+          throw new CheckAnswerError('invalid_response', 'Unexpected batch check response');
+        }
+
+        return submissions.map((submission, index): AnyCheckResult => {
+          if (submission.response !== undefined) {
+            return parseResponseCheckPayload(results[index], submission.response);
+          }
+
+          return isMultipleSubmission(submission)
+            ? parseMultiCheckPayload(results[index], submission.answerIds)
+            : parseCheckPayload(results[index], submission.answerIds[0] ?? '');
+        });
+      }
+    );
+  };
+
+  return {
+    checkAnswer: httpCheckAnswer,
+    checkMultipleAnswers: httpCheckMultipleAnswers,
+    checkResponse: httpCheckResponse,
+    checkAnswerBatch: httpCheckAnswerBatch
+  };
+};
+
+export const InlineError = ({
+  title,
+  message,
+  actionLabel,
+  onAction,
+  messages
+}: {
+  title?: string;
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  messages?: Partial<MessageCatalog>;
+}) => {
+  const t = useMessages(messages);
+
+  return (
+    <div className="inline-error" role="alert">
+      <div className="inline-error__content">
+        <strong className="inline-error__title">{title ?? t('inlineError.title')}</strong>
+        <span className="inline-error__message">{message}</span>
+      </div>
+      {actionLabel && onAction ? (
+        <button type="button" className="inline-error__action" onClick={onAction}>
+          {actionLabel}
+        </button>
+      ) : null}
+    </div>
+  );
+};
+
+const lockedFeatureMessageKeys: Record<GatedFeature, MessageKey> = {
+  explanation: 'explanation.locked',
+  checks: 'locked.checks',
+  hints: 'locked.hints',
+  retries: 'locked.retries'
+};
+
+export const LockedFeatureNotice = ({
+  feature,
+  values,
+  onUpgradeClick,
+  messages
+}: {
+  feature: GatedFeature;
+  values?: MessageValues;
+  onUpgradeClick?: (feature: GatedFeature) => void;
+  messages?: Partial<MessageCatalog>;
+}) => {
+  const t = useMessages(messages);
+
+  return (
+    <div className={cx('locked-feature', `locked-feature--${feature}`)}>
+      <span className="locked-feature__text">{t(lockedFeatureMessageKeys[feature], values)}</span>
+      {onUpgradeClick ? (
+        <button
+          type="button"
+          className="locked-feature__cta"
+          onClick={() => onUpgradeClick(feature)}
+        >
+          {t('locked.upgrade')}
+        </button>
+      ) : null}
+    </div>
+  );
+};
+
+export const QuestionSkeleton = ({ theme }: { theme?: QuestionCardThemeSetting }) => {
+  const themeProps = useQuestionCardTheme(theme);
+
+  return (
+    <div
+      className={cx('question-card', 'question-card--loading', themeProps.className)}
+      style={themeProps.style}
+    >
+      <div className="skeleton skeleton--stem" />
+      <div className="skeleton skeleton--option" />
+      <div className="skeleton skeleton--option" />
+      <div className="skeleton skeleton--option" />
+      <div className="skeleton skeleton--action" />
+    </div>
+  );
+};
+
+export const QuestionStem = ({
+  content,
+  onRenderError,
+  katexRenderer,
+  extensions,
+  urlPolicy,
+  codeHighlighter,
+  boundaryKey,
+  id,
+  messages
+}: {
+  content: TipTapNode | string;
+  onRenderError?: (error: Error) => void;
+  katexRenderer?: KatexRenderer;
+  extensions?: TipTapExtensions;
+  urlPolicy?: UrlPolicy;
+  codeHighlighter?: CodeHighlighter;
+  boundaryKey?: React.Key;
+  id?: string;
+  messages?: Partial<MessageCatalog>;
+}) => {
+  const t = useMessages(messages);
+
+  return (
+    <RenderErrorBoundary
+      key={boundaryKey}
+      onError={onRenderError}
+      fallback={
+        <div id={id} className="question-stem__fallback">
+          {t('stem.renderFailed')}
+        </div>
+      }
+    >
+      <div id={id} className="question-stem">
+        <TipTapRenderer
+          content={content}
+          onRenderError={onRenderError}
+          katexRenderer={katexRenderer}
+          extensions={extensions}
+          urlPolicy={urlPolicy}
+          codeHighlighter={codeHighlighter}
+        />
+      </div>
+    </RenderErrorBoundary>
+  );
+};
+
+// cyrb53-style string hash feeding a mulberry32 generator: cheap, and stable
+// across browsers so a seed yields the same order on every reload.
+const createSeededRandom = (seed: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < seed.length; index += 1) {
+    const code = seed.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  let state =
+    (Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)) >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Fisher-Yates shuffle driven by `seed`. Pinned options keep their authored
+ * order after the shuffled ones.
+ */
+export const shuffleAnswers = (answers: AnswerOption[], seed: string): AnswerOption[] => {
+  const random = createSeededRandom(seed);
+  const shuffled = answers.filter((answer) => !answer.pinned);
+
+  for (let index = shuffled.length - 1; index > 0; index -= 1) {
+    const swapIndex = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[swapIndex]] = [shuffled[swapIndex], shuffled[index]];
+  }
+
+  return [...shuffled, ...answers.filter((answer) => answer.pinned)];
+};
+
+const getDisplayedAnswers = (question: Question, shuffleSeed?: string) =>
+  shuffleSeed && question.shuffle !== false
+    ? shuffleAnswers(question.answers, `${shuffleSeed}:${question.id}`)
+    : question.answers;
+
+const getShortcutIndex = (key: string) => {
+  if (/^[1-9]$/.test(key)) {
+    return Number(key) - 1;
+  }
+
+  if (/^[a-z]$/i.test(key)) {
+    return key.toLowerCase().charCodeAt(0) - 97;
+  }
+
+  return null;
+};
+
+const getShortcutKeys = (index: number) =>
+  [index < 9 && String(index + 1), index < 26 && String.fromCharCode(65 + index)]
+    .filter(Boolean)
+    .join(' ') || undefined;
+
+type OptionFeedbackProps = {
+  id?: string;
+  content: TipTapNode | string;
+  locked?: boolean;
+  onUpgradeClick?: () => void;
+  onRenderError?: (error: Error) => void;
+  katexRenderer?: KatexRenderer;
+  extensions?: TipTapExtensions;
+  urlPolicy?: UrlPolicy;
+  codeHighlighter?: CodeHighlighter;
+  boundaryKey?: React.Key;
+  messages?: Partial<MessageCatalog>;
+};
+
+const OptionFeedback = ({
+  id,
+  content,
+  locked = false,
+  onUpgradeClick,
+  onRenderError,
+  katexRenderer,
+  extensions,
+  urlPolicy,
+  codeHighlighter,
+  boundaryKey,
+  messages
+}: OptionFeedbackProps) => {
+  const t = useMessages(messages);
+
+  const feedbackContent = (
+    <RenderErrorBoundary
+      key={boundaryKey}
+      onError={onRenderError}
+      fallback={<div className="option-feedback__fallback">{t('answerFeedback.renderFailed')}</div>}
+    >
+      <TipTapRenderer
+        content={content}
+        onRenderError={onRenderError}
+        katexRenderer={katexRenderer}
+        extensions={extensions}
+        urlPolicy={urlPolicy}
+        codeHighlighter={codeHighlighter}
+      />
+    </RenderErrorBoundary>
+  );
+
+  if (locked) {
+    return (
+      <div id={id} className="option-feedback option-feedback--locked">
+        <div className="option-feedback__blur" aria-hidden="true">
+          {feedbackContent}
+        </div>
+        <div className="option-feedback__overlay">
+          <span className="option-feedback__overlay-text">{t('answerFeedback.locked')}</span>
+          {onUpgradeClick ? (
+            <button type="button" className="option-feedback__cta" onClick={onUpgradeClick}>
+              {t('explanation.upgrade')}
+            </button>
+          ) : null}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div id={id} className="option-feedback">
+      {feedbackContent}
+    </div>
+  );
+};
+
+export const AnswerOptions = ({
+  options,
+  selectedAnswerId,
+  selectedAnswerIds,
+  onSelect,
+  onSubmit,
+  multiple = false,
+  disabled = false,
+  revealCorrectness = false,
+  correctAnswerId,
+  correctAnswerIds,
+  showFeedback = true,
+  feedbackLocked = false,
+  onUpgradeClick,
+  labelledBy,
+  onRenderError,
+  katexRenderer,
+  extensions,
+  urlPolicy,
+  codeHighlighter,
+  messages
+}: {
+  options: AnswerOption[];
+  selectedAnswerId: string | null;
+  selectedAnswerIds?: string[];
+  onSelect: (answerId: string) => void;
+  onSubmit?: () => void;
+  multiple?: boolean;
+  disabled?: boolean;
+  revealCorrectness?: boolean;
+  correctAnswerId?: string;
+  correctAnswerIds?: string[];
+  showFeedback?: boolean;
+  feedbackLocked?: boolean;
+  onUpgradeClick?: () => void;
+  labelledBy?: string;
+  onRenderError?: (error: Error) => void;
+  katexRenderer?: KatexRenderer;
+  extensions?: TipTapExtensions;
+  urlPolicy?: UrlPolicy;
+  codeHighlighter?: CodeHighlighter;
+  messages?: Partial<MessageCatalog>;
+}) => {
+  const t = useMessages(messages);
+  const feedbackIdPrefix = useId();
+  const selected = new Set(selectedAnswerIds ?? (selectedAnswerId ? [selectedAnswerId] : []));
+  const correct = new Set(correctAnswerIds ?? (correctAnswerId ? [correctAnswerId] : []));
+
+  const optionRefs = useRef<Array<HTMLButtonElement | null>>([]);
+  const [focusIndex, setFocusIndex] = useState<number | null>(null);
+  const selectedIndex = options.findIndex((option) => selected.has(option.id));
+  const tabStopIndex =
+    focusIndex !== null && focusIndex < options.length
+      ? focusIndex
+      : Math.max(selectedIndex, 0);
+
+  const focusOption = (index: number) => {
+    setFocusIndex(index);
+    optionRefs.current[index]?.focus();
+  };
+
+  // Radio semantics: in single-choice mode selection follows focus; checkboxes
+  // only move focus and are toggled with Space.
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLUListElement>) => {
+    if (disabled || options.length === 0) {
+      return;
+    }
+
+    const focusedIndex = optionRefs.current.indexOf(event.target as HTMLButtonElement);
+    const current = focusedIndex === -1 ? tabStopIndex : focusedIndex;
+    let nextIndex: number;
+
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowRight':
+        nextIndex = (current + 1) % options.length;
+        break;
+      case 'ArrowUp':
+      case 'ArrowLeft':
+        nextIndex = (current - 1 + options.length) % options.length;
+        break;
+      case 'Home':
+        nextIndex = 0;
+        break;
+      case 'End':
+        nextIndex = options.length - 1;
+        break;
+      case 'Enter':
+        if (onSubmit) {
+          event.preventDefault();
+          onSubmit();
+        }
+        return;
+      default: {
+        const shortcutIndex =
+          event.altKey || event.ctrlKey || event.metaKey ? null : getShortcutIndex(event.key);
+        if (shortcutIndex !== null && shortcutIndex < options.length) {
+          event.preventDefault();
+          focusOption(shortcutIndex);
+          onSelect(options[shortcutIndex].id);
+        }
+        return;
+      }
+    }
+
+    event.preventDefault();
+    focusOption(nextIndex);
+    if (!multiple) {
+      onSelect(options[nextIndex].id);
+    }
+  };
+
+  return (
+    <ul
+      className={cx('answer-options', multiple && 'answer-options--multiple')}
+      role={multiple ? 'group' : 'radiogroup'}
+      aria-labelledby={labelledBy}
+      aria-disabled={disabled || undefined}
+      onKeyDown={handleKeyDown}
+    >
+      {options.map((option, index) => {
+        const isSelected = selected.has(option.id);
+        const isKeyed = revealCorrectness && correct.has(option.id);
+        const isMissed = multiple && isKeyed && !isSelected;
+        const isCorrect = isKeyed && !isMissed;
+        const isIncorrect = revealCorrectness && isSelected && !isKeyed;
+        const feedbackId = `${feedbackIdPrefix}-feedback-${index}`;
+        const hasFeedback = showFeedback && revealCorrectness && isSelected && !!option.feedback;
+
+        return (
+          <li key={option.id} className="answer-options__item" role="none">
+            <button
+              ref={(element) => {
+                optionRefs.current[index] = element;
+              }}
+              type="button"
+              role={multiple ? 'checkbox' : 'radio'}
+              aria-checked={isSelected}
+              aria-keyshortcuts={getShortcutKeys(index)}
+              tabIndex={index === tabStopIndex ? 0 : -1}
+              aria-describedby={hasFeedback ? feedbackId : undefined}
+              disabled={disabled}
+              className={cx(
+                'answer-options__button',
+                isSelected && 'is-selected',
+                isCorrect && 'is-correct',
+                isIncorrect && 'is-incorrect',
+                isMissed && 'is-missed'
+              )}
+              onFocus={() => setFocusIndex(index)}
+              onClick={() => onSelect(option.id)}
+            >
+              <span className="answer-options__marker" aria-hidden="true" />
+              <span className="answer-options__content">
+                <TipTapRenderer
+                  content={option.content}
+                  onRenderError={onRenderError}
+                  katexRenderer={katexRenderer}
+                  extensions={extensions}
+                  urlPolicy={urlPolicy}
+                  codeHighlighter={codeHighlighter}
+                  variant="inline"
+                />
+              </span>
+              {isCorrect ? (
+                <span className="answer-options__status">{t('answerOptions.correct')}</span>
+              ) : null}
+              {isIncorrect ? (
+                <span className="answer-options__status">{t('answerOptions.incorrect')}</span>
+              ) : null}
+              {isMissed ? (
+                <span className="answer-options__status">{t('answerOptions.missed')}</span>
+              ) : null}
+            </button>
+            {hasFeedback && option.feedback ? (
+              <OptionFeedback
+                id={feedbackId}
+                content={option.feedback}
+                locked={feedbackLocked}
+                onUpgradeClick={onUpgradeClick}
+                onRenderError={onRenderError}
+                katexRenderer={katexRenderer}
+                extensions={extensions}
+                urlPolicy={urlPolicy}
+                codeHighlighter={codeHighlighter}
+                boundaryKey={option.id}
+                messages={messages}
+              />
+            ) : null}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+const responseFeedbackMessageKeys: Record<ResponseFeedback, MessageKey> = {
+  invalid_number: 'response.invalidNumber',
+  wrong_unit: 'response.wrongUnit'
+};
+
+type ResponseInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit?: () => void;
+  disabled?: boolean;
+  /** Pass the result only once it should be revealed. */
+  result?: ResponseCheckResult | null;
+  settings?: ResponseSettings;
+  labelledBy?: string;
+  messages?: Partial<MessageCatalog>;
+};
+
+const ResponseInput = ({
+  kind,
+  value,
+  onChange,
+  onSubmit,
+  disabled = false,
+  result,
+  settings,
+  labelledBy,
+  messages
+}: ResponseInputProps & { kind: 'numeric' | 'text' }) => {
+  const t = useMessages(messages);
+  const feedbackId = useId();
+  const unit = kind === 'numeric' ? settings?.unit : undefined;
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' && onSubmit) {
+      event.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div
+      className={cx(
+        'response-input',
+        `response-input--${kind}`,
+        result?.isCorrect && 'is-correct',
+        result && !result.isCorrect && 'is-incorrect'
+      )}
+    >
+      <div className="response-input__field">
+        <input
+          type="text"
+          className="response-input__control"
+          inputMode={kind === 'numeric' ? 'decimal' : 'text'}
+          autoComplete="off"
+          spellCheck={kind === 'text'}
+          value={value}
+          placeholder={
+            settings?.placeholder ??
+            t(kind === 'numeric' ? 'response.numericPlaceholder' : 'response.textPlaceholder')
+          }
+          maxLength={settings?.maxLength}
+          disabled={disabled}
+          aria-labelledby={labelledBy}
+          aria-describedby={result ? feedbackId : undefined}
+          aria-invalid={result ? !result.isCorrect : undefined}
+          onChange={(event) => onChange(event.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+        {unit ? <span className="response-input__unit">{unit}</span> : null}
+      </div>
+      {result && !result.isCorrect ? (
+        <div id={feedbackId} className="response-input__feedback">
+          {result.feedback ? (
+            <span className="response-input__hint">
+              {t(responseFeedbackMessageKeys[result.feedback])}
+            </span>
+          ) : null}
+          <span className="response-input__answer">
+            {t('response.correctAnswer', { answer: result.correctResponse })}
+          </span>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export const NumericResponseInput = (props: ResponseInputProps) => (
+  <ResponseInput kind="numeric" {...props} />
+);
+
+export const TextResponseInput = (props: ResponseInputProps) => (
+  <ResponseInput kind="text" {...props} />
+);
+
+export const ActionBar = ({
+  onCheck,
+  disabled,
+  status,
+  checkResult,
+  statusRef,
+  onShowHint,
+  hintsRevealed = 0,
+  hintCount = 0,
+  hintPenalty = 0,
+  freeResponse = false,
+  messages
+}: {
+  onCheck: () => void;
+  disabled: boolean;
+  status: CheckStatus;
+  checkResult?: AnyCheckResult | null;
+  statusRef?: React.Ref<HTMLSpanElement>;
+  onShowHint?: () => void;
+  hintsRevealed?: number;
+  hintCount?: number;
+  hintPenalty?: number;
+  freeResponse?: boolean;
+  messages?: Partial<MessageCatalog>;
+}) => {
+  const t = useMessages(messages);
+  const hintNoteId = useId();
+  const canShowHint = !!onShowHint && hintsRevealed < hintCount;
+  const isPartiallyCorrect =
+    !!checkResult && isMultiCheckResult(checkResult) && !checkResult.isCorrect && checkResult.score > 0;
+
+  const statusMessage =
+    status === 'checking'
+      ? t('actionBar.checking')
+      : status === 'success' && checkResult
+        ? isTimedOutResult(checkResult)
+          ? t('actionBar.timedOut')
+          : checkResult.isCorrect
+            ? t('actionBar.correct')
+            : isPartiallyCorrect
+              ? t('actionBar.partiallyCorrect')
+              : t('actionBar.incorrect')
+        : status === 'error'
+          ? t('actionBar.failed')
+          : t(freeResponse ? 'actionBar.responsePrompt' : 'actionBar.prompt');
+
+  return (
+    <div className="action-bar">
+      <button
+        type="button"
+        className="action-bar__check"
+        onClick={onCheck}
+        disabled={disabled}
+      >
+        {t('actionBar.check')}
+      </button>
+      {canShowHint ? (
+        <button
+          type="button"
+          className="action-bar__hint"
+          onClick={onShowHint}
+          disabled={status === 'checking'}
+          aria-describedby={hintPenalty > 0 ? hintNoteId : undefined}
+        >
+          {hintsRevealed === 0
+            ? t('hints.show')
+            : t('hints.showNext', { index: hintsRevealed + 1, count: hintCount })}
+        </button>
+      ) : null}
+      {canShowHint && hintPenalty > 0 ? (
+        <span id={hintNoteId} className="action-bar__hint-note">
+          {t('hints.penalty', { percent: Math.round(hintPenalty * 100) })}
+        </span>
+      ) : null}
+      <span
+        ref={statusRef}
+        className="action-bar__status"
+        role="status"
+        aria-live="polite"
+        tabIndex={-1}
+      >
+        {statusMessage}
+      </span>
+    </div>
+  );
+};
+
+export const Explanation = ({
+  content,
+  optionFeedback,
+  visible,
+  demoMode,
+  onUpgradeClick,
+  onRenderError,
+  katexRenderer,
+  extensions,
+  urlPolicy,
+  codeHighlighter,
+  boundaryKey,
+  containerRef,
+  messages
+}: {
+  content?: TipTapNode | string | null;
+  optionFeedback?: AnswerOption[];
+  visible: boolean;
+  demoMode: boolean;
+  onUpgradeClick?: () => void;
+  onRenderError?: (error: Error) => void;
+  katexRenderer?: KatexRenderer;
+  extensions?: TipTapExtensions;
+  urlPolicy?: UrlPolicy;
+  codeHighlighter?: CodeHighlighter;
+  boundaryKey?: React.Key;
+  containerRef?: React.Ref<HTMLDivElement>;
+  messages?: Partial<MessageCatalog>;
+}) => {
+  const t = useMessages(messages);
+
+  if (!visible) {
+    return null;
+  }
+
+  const feedbackOptions = optionFeedback?.filter((option) => option.feedback) ?? [];
+
+  if (!content && feedbackOptions.length === 0) {
+    return (
+      <div ref={containerRef} tabIndex={-1} className="explanation explanation--empty">
+        {t('explanation.unavailable')}
+      </div>
+    );
+  }
+
+  const explanationContent = (
+    <>
+      {feedbackOptions.map((option) =>
+        option.feedback ? (
+          <OptionFeedback
+            key={option.id}
+            content={option.feedback}
+            onRenderError={onRenderError}
+            katexRenderer={katexRenderer}
+            extensions={extensions}
+            urlPolicy={urlPolicy}
+            codeHighlighter={codeHighlighter}
+            boundaryKey={`${boundaryKey ?? ''}:${option.id}`}
+            messages={messages}
+          />
+        ) : null
+      )}
+      {content ? (
+        <RenderErrorBoundary
+          key={boundaryKey}
+          onError={onRenderError}
+          fallback={<div className="explanation__fallback">{t('explanation.renderFailed')}</div>}
+        >
+          <TipTapRenderer
+            content={content}
+            onRenderError={onRenderError}
+            katexRenderer={katexRenderer}
+            extensions={extensions}
+            urlPolicy={urlPolicy}
+            codeHighlighter={codeHighlighter}
+          />
+        </RenderErrorBoundary>
+      ) : null}
+    </>
+  );
+
+  if (demoMode) {
+    return (
+      <div ref={containerRef} tabIndex={-1} className="explanation explanation--locked">
+        <div className="explanation__blur" aria-hidden="true">
+          {explanationContent}
+        </div>
+        <div className="explanation__overlay">
+          <div className="explanation__overlay-text">{t('explanation.locked')}</div>
+          <button
+            type="button"
+            className="explanation__cta"
+            onClick={onUpgradeClick}
+          >
+            {t('explanation.upgrade')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} tabIndex={-1} className="explanation">
+      {explanationContent}
+    </div>
+  );
+};
+
+export const Hints = ({
+  hints,
+  revealedCount,
+  onRenderError,
+  katexRenderer,
+  extensions,
+  urlPolicy,
+  codeHighlighter,
+  boundaryKey,
+  messages
+}: {
+  hints: Array<TipTapNode | string>;
+  revealedCount: number;
+  onRenderError?: (error: Error) => void;
+  katexRenderer?: KatexRenderer;
+  extensions?: TipTapExtensions;
+  urlPolicy?: UrlPolicy;
+  codeHighlighter?: CodeHighlighter;
+  boundaryKey?: React.Key;
+  messages?: Partial<MessageCatalog>;
+}) => {
+  const t = useMessages(messages);
+
+  if (revealedCount === 0) {
+    return null;
+  }
+
+  return (
+    <ol className="hints" aria-live="polite">
+      {hints.slice(0, revealedCount).map((hint, index) => (
+        <li key={index} className="hints__item">
+          <span className="hints__label">{t('hints.label', { index: index + 1 })}</span>
+          <RenderErrorBoundary
+            key={`${boundaryKey ?? ''}:${index}`}
+            onError={onRenderError}
+            fallback={<div className="hints__fallback">{t('hints.renderFailed')}</div>}
+          >
+            <TipTapRenderer
+              content={hint}
+              onRenderError={onRenderError}
+              katexRenderer={katexRenderer}
+              extensions={extensions}
+              urlPolicy={urlPolicy}
+              codeHighlighter={codeHighlighter}
+            />
+          </RenderErrorBoundary>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export type QuestionAttemptSnapshot = {
+  selectedAnswerIds: string[];
+  response?: string;
+  hintsUsed?: number;
+  elapsedMs?: number;
+  checkResult: AnyCheckResult | null;
+  savedAt: number;
+};
+
+export type AttemptStorage = {
+  load: (questionId: string) => Promise<QuestionAttemptSnapshot | null>;
+  save: (questionId: string, snapshot: QuestionAttemptSnapshot) => Promise<void>;
+  clear: (questionId: string) => Promise<void>;
+};
+
+const parseAttemptSnapshot = (value: unknown): QuestionAttemptSnapshot | null => {
+  const snapshot = value as Partial<QuestionAttemptSnapshot> | null | undefined;
+  if (
+    !snapshot ||
+    !isStringArray(snapshot.selectedAnswerIds) ||
+    typeof snapshot.savedAt !== 'number' ||
+    (snapshot.checkResult !== null && typeof snapshot.checkResult?.isCorrect !== 'boolean')
+  ) {
+    return null;
+  }
+
+  return {
+    selectedAnswerIds: snapshot.selectedAnswerIds,
+    ...(typeof snapshot.response === 'string' ? { response: snapshot.response } : {}),
+    ...(typeof snapshot.hintsUsed === 'number' ? { hintsUsed: snapshot.hintsUsed } : {}),
+    ...(typeof snapshot.elapsedMs === 'number' ? { elapsedMs: snapshot.elapsedMs } : {}),
+    checkResult: snapshot.checkResult,
+    savedAt: snapshot.savedAt
+  };
+};
+
+export const createMemoryAttemptStorage = (): AttemptStorage => {
+  const snapshots = new Map<string, QuestionAttemptSnapshot>();
+
+  return {
+    load: (questionId) => Promise.resolve(snapshots.get(questionId) ?? null),
+    save: (questionId, snapshot) => {
+      snapshots.set(questionId, snapshot);
+      return Promise.resolve();
+    },
+    clear: (questionId) => {
+      snapshots.delete(questionId);
+      return Promise.resolve();
+    }
+  };
+};
+
+export const createLocalStorageAttemptStorage = ({
+  prefix = 'question-attempt:',
+  storage = globalThis.localStorage
+}: {
+  prefix?: string;
+  storage?: Storage;
+} = {}): AttemptStorage => ({
+  load: (questionId) => {
+    try {
+      const raw = storage.getItem(`${prefix}${questionId}`);
+      return Promise.resolve(raw ? parseAttemptSnapshot(JSON.parse(raw)) : null);
+    } catch (error) {
+      return Promise.resolve(null);
+    }
+  },
+  save: (questionId, snapshot) => {
+    try {
+      storage.setItem(`${prefix}${questionId}`, JSON.stringify(snapshot));
+      return Promise.resolve();
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  },
+  clear: (questionId) => {
+    try {
+      storage.removeItem(`${prefix}${questionId}`);
+      return Promise.resolve();
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+});
+
+export const createIndexedDbAttemptStorage = ({
+  dbName = 'question-card',
+  storeName = 'attempts',
+  indexedDB: factory = globalThis.indexedDB
+}: {
+  dbName?: string;
+  storeName?: string;
+  indexedDB?: IDBFactory;
+} = {}): AttemptStorage => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = factory.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch((error) => {
+        dbPromise = null;
+        throw error;
+      });
+    }
+
+    return dbPromise;
+  };
+
+  const run = <T,>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) =>
+    openDb().then(
+      (db) =>
+        new Promise<T>((resolve, reject) => {
+          const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        })
+    );
+
+  return {
+    load: (questionId) =>
+      run('readonly', (store) => store.get(questionId)).then(parseAttemptSnapshot),
+    save: (questionId, snapshot) =>
+      run('readwrite', (store) => store.put(snapshot, questionId)).then(() => undefined),
+    clear: (questionId) =>
+      run('readwrite', (store) => store.delete(questionId)).then(() => undefined)
+  };
+};
+
+type QuestionEventBase = {
+  questionId: string;
+  /** Epoch milliseconds at which the event was emitted. */
+  timestamp: number;
+};
+
+export type QuestionAnalyticsEvent = QuestionEventBase &
+  (
+    | { type: 'question_view'; displayedAnswerIds: string[] }
+    | {
+        type: 'answer_select';
+        answerId: string;
+        selected: boolean;
+        timeToFirstSelectionMs?: number;
+      }
+    | {
+        type: 'check_request';
+        answerIds: string[];
+        response?: string;
+        attempt: number;
+        timeToCheckMs: number;
+      }
+    | {
+        type: 'check_result';
+        answerIds: string[];
+        response?: string;
+        displayedAnswerIds: string[];
+        attempt: number;
+        latencyMs: number;
+        isCorrect: boolean;
+        score: number;
+      }
+    | {
+        type: 'check_error';
+        answerIds: string[];
+        response?: string;
+        attempt: number;
+        latencyMs: number;
+        code?: CheckErrorCode;
+        message: string;
+      }
+    | { type: 'retry'; attempt: number }
+    | { type: 'hint_reveal'; hintIndex: number; hintCount: number }
+    | { type: 'time_expired'; answered: boolean; elapsedMs: number }
+    | { type: 'render_error'; message: string }
+    | { type: 'upgrade_click'; feature: GatedFeature }
+  );
+
+export type QuestionAnalyticsEventType = QuestionAnalyticsEvent['type'];
+
+export type AnalyticsSink = {
+  track: (event: QuestionAnalyticsEvent) => void;
+  flush?: () => Promise<void>;
+};
+
+export const createInMemoryAnalyticsSink = () => {
+  const events: QuestionAnalyticsEvent[] = [];
+
+  return {
+    events,
+    track: (event: QuestionAnalyticsEvent) => {
+      events.push(event);
+    },
+    flush: () => Promise.resolve(),
+    clear: () => {
+      events.length = 0;
+    }
+  };
+};
+
+export type BatchingAnalyticsSinkConfig = {
+  send: (events: QuestionAnalyticsEvent[]) => Promise<void>;
+  maxBatchSize?: number;
+  flushIntervalMs?: number;
+  /** Oldest events are dropped beyond this size while `send` keeps failing. */
+  maxQueueSize?: number;
+  /** Upper bound of the flush interval, which doubles after every failed `send`. */
+  maxRetryIntervalMs?: number;
+};
+
+export const createBatchingAnalyticsSink = ({
+  send,
+  maxBatchSize = 20,
+  flushIntervalMs = 5000,
+  maxQueueSize = 1000,
+  maxRetryIntervalMs = 60000
+}: BatchingAnalyticsSinkConfig): Required<AnalyticsSink> => {
+  let queue: QuestionAnalyticsEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let failures = 0;
+
+  const scheduleFlush = () => {
+    if (!timer) {
+      const delayMs = Math.min(flushIntervalMs * 2 ** failures, maxRetryIntervalMs);
+      timer = setTimeout(() => void flush(), Math.max(delayMs, flushIntervalMs));
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    if (queue.length === 0) {
+      return Promise.resolve();
+    }
+
+    const batch = queue;
+    queue = [];
+
+    // `send` may also throw synchronously, which must not reach `track` callers.
+    return Promise.resolve()
+      .then(() => send(batch))
+      .then(
+        () => {
+          failures = 0;
+        },
+        () => {
+          failures += 1;
+          queue = [...batch, ...queue].slice(-maxQueueSize);
+          scheduleFlush();
+        }
+      );
+  };
+
+  return {
+    track: (event) => {
+      queue.push(event);
+      if (queue.length >= maxBatchSize && failures === 0) {
+        void flush();
+        return;
+      }
+
+      scheduleFlush();
+    },
+    flush
+  };
+};
+
+const AnalyticsContext = createContext<AnalyticsSink | null>(null);
+
+export const AnalyticsProvider = ({
+  sink,
+  children
+}: {
+  sink: AnalyticsSink;
+  children: React.ReactNode;
+}) => {
+  useEffect(() => {
+    if (!sink.flush) {
+      return;
+    }
+
+    const flush = () => {
+      sink.flush?.().catch(() => undefined);
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        flush();
+      }
+    };
+
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flush();
+    };
+  }, [sink]);
+
+  return <AnalyticsContext.Provider value={sink}>{children}</AnalyticsContext.Provider>;
+};
+
+export const useAnalytics = (onEvent?: (event: QuestionAnalyticsEvent) => void) => {
+  const sink = useContext(AnalyticsContext);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  return useCallback(
+    (event: QuestionAnalyticsEvent) => {
+      onEventRef.current?.(event);
+      sink?.track(event);
+    },
+    [sink]
+  );
+};
+
+const isDocumentHidden = () => typeof document !== 'undefined' && document.hidden;
+
+/**
+ * Counts visible time towards `limitMs` while `running`; time spent in a hidden
+ * tab does not count. Changing `resetKey` starts over from zero.
+ *
+ * Only expiry re-renders the caller; `Countdown` ticks the visible time itself
+ * and reads it on mount, so key it by `restoreCount`, which `setElapsedMs` bumps.
+ * `onPause` receives the elapsed time whenever counting stops, e.g. to persist it.
+ */
+export const useCountdown = (
+  limitMs: number | undefined,
+  running: boolean,
+  resetKey?: unknown,
+  onPause?: (elapsedMs: number) => void
+) => {
+  const [isHidden, setIsHidden] = useState(isDocumentHidden);
+  const [isExpired, setIsExpired] = useState(false);
+  const [restoreCount, setRestoreCount] = useState(0);
+  const accumulatedRef = useRef(0);
+  const startedAtRef = useRef<number | null>(null);
+  // Key the accumulated time belongs to; it trails `resetKey` until the reset effect ran.
+  const countedKeyRef = useRef(resetKey);
+  const resetKeyRef = useRef(resetKey);
+  resetKeyRef.current = resetKey;
+  const onPauseRef = useRef(onPause);
+  onPauseRef.current = onPause;
+  const isRunning = limitMs !== undefined && running && !isHidden && !isExpired;
+
+  const readElapsedMs = useCallback(
+    () =>
+      accumulatedRef.current +
+      (startedAtRef.current === null ? 0 : Date.now() - startedAtRef.current),
+    []
+  );
+
+  // Reads 0 right after `resetKey` changed instead of the previous key's time.
+  const getElapsedMs = useCallback(
+    () => (countedKeyRef.current === resetKeyRef.current ? readElapsedMs() : 0),
+    [readElapsedMs]
+  );
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      // Reported right away, since the page may be unloaded before React re-renders.
+      if (isDocumentHidden() && startedAtRef.current !== null) {
+        onPauseRef.current?.(readElapsedMs());
+      }
+      setIsHidden(isDocumentHidden());
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [readElapsedMs]);
+
+  useEffect(() => {
+    countedKeyRef.current = resetKey;
+    accumulatedRef.current = 0;
+    startedAtRef.current = null;
+    setIsExpired(false);
+  }, [resetKey]);
+
+  const setElapsedMs = useCallback(
+    (elapsedMs: number) => {
+      accumulatedRef.current = Math.max(elapsedMs, 0);
+      if (startedAtRef.current !== null) {
+        startedAtRef.current = Date.now();
+      }
+      setIsExpired(limitMs !== undefined && accumulatedRef.current >= limitMs);
+      setRestoreCount((count) => count + 1);
+    },
+    [limitMs]
+  );
+
+  useEffect(() => {
+    if (!isRunning || limitMs === undefined) {
+      return;
+    }
+
+    startedAtRef.current = Date.now();
+    let timer: ReturnType<typeof setTimeout>;
+    const scheduleExpiry = () => {
+      const remainingMs = limitMs - readElapsedMs();
+      if (remainingMs <= 0) {
+        setIsExpired(true);
+        return;
+      }
+      timer = setTimeout(scheduleExpiry, remainingMs);
+    };
+    scheduleExpiry();
+
+    return () => {
+      clearTimeout(timer);
+      accumulatedRef.current = readElapsedMs();
+      startedAtRef.current = null;
+      onPauseRef.current?.(accumulatedRef.current);
+    };
+  }, [isRunning, limitMs, readElapsedMs, resetKey, restoreCount]);
+
+  return { isExpired, getElapsedMs, setElapsedMs, restoreCount };
+};
+
+const defaultTimeWarningsMs = [30000, 10000];
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+export const Countdown = ({
+  limitMs,
+  getElapsedMs,
+  warningsMs = defaultTimeWarningsMs,
+  messages
+}: {
+  limitMs: number;
+  getElapsedMs: () => number;
+  warningsMs?: number[];
+  messages?: Partial<MessageCatalog>;
+}) => {
+  const t = useMessages(messages);
+  const [elapsedMs, setElapsedMs] = useState(getElapsedMs);
+
+  useEffect(() => {
+    setElapsedMs(getElapsedMs());
+    const timer = setInterval(() => setElapsedMs(getElapsedMs()), 250);
+    return () => clearInterval(timer);
+  }, [getElapsedMs]);
+
+  const remainingMs = Math.max(limitMs - elapsedMs, 0);
+  const activeWarningMs = Math.min(
+    ...warningsMs.filter((warningMs) => warningMs < limitMs && remainingMs <= warningMs)
+  );
+  const isWarning = Number.isFinite(activeWarningMs);
+  const announcement =
+    remainingMs === 0
+      ? t('timer.expired')
+      : isWarning
+        ? t('timer.warning', { count: Math.round(activeWarningMs / 1000) })
+        : '';
+
+  return (
+    <div
+      className={cx(
+        'countdown',
+        isWarning && 'countdown--warning',
+        remainingMs === 0 && 'countdown--expired'
+      )}
+    >
+      <span className="countdown__label">{t('timer.label')}</span>
+      <span className="countdown__time" role="timer" aria-atomic="true">
+        {formatCountdown(remainingMs)}
+      </span>
+      <span className="countdown__announcement" aria-live="assertive">
+        {announcement}
+      </span>
+    </div>
+  );
+};
+
+/**
+ * `exam` records answers through `onAnswerChange` without checking them or
+ * revealing anything; see `ExamSession`.
+ */
+export type QuestionCardMode = 'practice' | 'exam';
+
+export type QuestionTiming = {
+  elapsedMs: number;
+  timedOut?: boolean;
+};
+
+export type QuestionCardProps = {
+  question: Question | null;
+  demoMode?: boolean;
+  isLoading?: boolean;
+  mode?: QuestionCardMode;
+  initialAnswer?: Pick<AnswerSubmission, 'answerIds' | 'response'>;
+  initialResult?: AnyCheckResult;
+  onAnswerChange?: (submission: AnswerSubmission) => void;
+  initialTiming?: QuestionTiming;
+  onTimeChange?: (questionId: string, timing: QuestionTiming) => void;
+  /** Takes precedence over `AppConfig.onUpgradeClick`. */
+  onUpgradeClick?: (feature: GatedFeature) => void;
+  checkAnswer?: (
+    questionId: string,
+    answerId: string,
+    options?: CheckAnswerOptions
+  ) => Promise<CheckResult>;
+  checkMultipleAnswers?: (
+    questionId: string,
+    answerIds: string[],
+    options?: CheckAnswerOptions
+  ) => Promise<MultiCheckResult>;
+  checkResponse?: (
+    questionId: string,
+    response: string,
+    options?: CheckAnswerOptions
+  ) => Promise<ResponseCheckResult>;
+  katexRenderer?: KatexRenderer;
+  extensions?: TipTapExtensions;
+  urlPolicy?: UrlPolicy;
+  codeHighlighter?: CodeHighlighter;
+  /**
+   * Shuffles answer options per seed and question id, e.g. pass the user id so
+   * the order is stable across reloads but differs between students.
+   */
+  shuffleSeed?: string;
+  /**
+   * Score deducted per revealed hint from 0 to 1, e.g. `0.25`; other values are
+   * clamped. Recorded on the result as `hintPenalty`; scores never drop below 0.
+   */
+  hintPenalty?: number;
+  /** Defaults to `inline`, under the selected option. */
+  optionFeedbackPlacement?: OptionFeedbackPlacement;
+  /** Remaining times at which the countdown of a timed question warns; defaults to 30s and 10s. */
+  timeWarningsMs?: number[];
+  onCheckResult?: (result: AnyCheckResult) => void;
+  onAnalyticsEvent?: (event: QuestionAnalyticsEvent) => void;
+  /**
+   * Restores the attempt when the question is shown. Stored attempts are kept until
+   * a session restarts or the caller clears them.
+   */
+  attemptStorage?: AttemptStorage;
+  messages?: Partial<MessageCatalog>;
+  theme?: QuestionCardThemeSetting;
+};
+
+const clampHintPenalty = (penalty: number) =>
+  Number.isFinite(penalty) ? Math.min(Math.max(penalty, 0), 1) : 0;
+
+const normalizeCheckError = (error: unknown): CheckError => {
+  if (error instanceof CheckAnswerError) {
+    return { message: error.message, code: error.code };
+  }
+
+  if (error instanceof Error) {
+    return { message: error.message };
+  }
+
+  return { message: '' };
+};
+
+export const QuestionCard = ({
+  question,
+  demoMode,
+  isLoading = false,
+  mode = 'practice',
+  initialAnswer,
+  initialResult,
+  onAnswerChange,
+  initialTiming,
+  onTimeChange,
+  onUpgradeClick,
+  checkAnswer: checkAnswerOverride,
+  checkMultipleAnswers: checkMultipleAnswersOverride,
+  checkResponse: checkResponseOverride,
+  katexRenderer,
+  extensions,
+  urlPolicy,
+  codeHighlighter,
+  shuffleSeed,
+  hintPenalty: hintPenaltyProp = 0,
+  optionFeedbackPlacement = 'inline',
+  timeWarningsMs,
+  onCheckResult,
+  onAnalyticsEvent,
+  attemptStorage,
+  messages,
+  theme
+}: QuestionCardProps) => {
+  const { capabilities, checksRemaining, canCheck, recordCheck, requestUpgrade } =
+    useEntitlements();
+  const t = useMessages(messages);
+  const themeProps = useQuestionCardTheme(theme);
+  const track = useAnalytics(onAnalyticsEvent);
+  const isExplanationLocked = !!demoMode || !capabilities.explanation;
+  const isHintsLocked = !!demoMode || !capabilities.hints;
+  const hintCount = question?.hints?.length ?? 0;
+  const hintPenalty = clampHintPenalty(hintPenaltyProp);
+  const checkAnswerImpl = checkAnswerOverride ?? checkAnswer;
+  const checkMultipleAnswersImpl = checkMultipleAnswersOverride ?? checkMultipleAnswers;
+  const checkResponseImpl = checkResponseOverride ?? checkResponse;
+  const isMultiple = question?.kind === 'multiple';
+  const isFreeResponse = !!question && isFreeResponseQuestion(question);
+  const isExam = mode === 'exam';
+
+  const displayedAnswers = useMemo(
+    () => (question ? getDisplayedAnswers(question, shuffleSeed) : []),
+    [question, shuffleSeed]
+  );
+  const displayedAnswerIds = useMemo(
+    () => displayedAnswers.map((answer) => answer.id),
+    [displayedAnswers]
+  );
+
+  const [selectedAnswerIds, setSelectedAnswerIds] = useState<string[]>([]);
+  const [response, setResponse] = useState('');
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [checkStatus, setCheckStatus] = useState<CheckStatus>('idle');
+  const [checkError, setCheckError] = useState<CheckError | null>(null);
+  const [renderError, setRenderError] = useState<Error | null>(null);
+  const [checkResult, setCheckResult] = useState<AnyCheckResult | null>(null);
+  const [isTimeUp, setIsTimeUp] = useState(false);
+
+  const timeLimitMs = question?.timeLimitMs;
+  const saveAttemptRef = useRef<() => void>(() => undefined);
+  const onTimeChangeRef = useRef(onTimeChange);
+  onTimeChangeRef.current = onTimeChange;
+  // Still sees the question being left when the countdown stops for a new one.
+  const handleCountdownPause = useCallback((elapsedMs: number) => {
+    saveAttemptRef.current();
+    if (questionIdRef.current) {
+      onTimeChangeRef.current?.(questionIdRef.current, {
+        elapsedMs,
+        ...(timeUpRef.current ? { timedOut: true } : {})
+      });
+    }
+  }, []);
+  const { isExpired, getElapsedMs, setElapsedMs, restoreCount } = useCountdown(
+    timeLimitMs,
+    !isLoading && !isTimeUp && checkStatus !== 'checking' && checkStatus !== 'success',
+    question?.id,
+    handleCountdownPause
+  );
+
+  const requestSeq = useRef(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const questionIdRef = useRef<string | null>(null);
+  const restoredQuestionIdRef = useRef<string | null>(null);
+  const hasInteractedRef = useRef(false);
+  const stemId = useId();
+  const statusRef = useRef<HTMLSpanElement>(null);
+  const explanationRef = useRef<HTMLDivElement>(null);
+  const shouldFocusResultRef = useRef(false);
+  const viewedAtRef = useRef(0);
+  const hasSelectedRef = useRef(false);
+  const attemptRef = useRef(0);
+  // Mirrors `isTimeUp` for the check started in the same tick as the expiry.
+  const timeUpRef = useRef(false);
+  // Only read when the question changes, so inline values do not reset the answer.
+  const initialAnswerRef = useRef(initialAnswer);
+  initialAnswerRef.current = initialAnswer;
+  const initialResultRef = useRef(initialResult);
+  initialResultRef.current = initialResult;
+  const initialTimingRef = useRef(initialTiming);
+  initialTimingRef.current = initialTiming;
+  const onAnswerChangeRef = useRef(onAnswerChange);
+  onAnswerChangeRef.current = onAnswerChange;
+
+  const resetState = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    requestSeq.current += 1;
+    restoredQuestionIdRef.current = null;
+    hasInteractedRef.current = false;
+    hasSelectedRef.current = false;
+    attemptRef.current = 0;
+    timeUpRef.current = false;
+    setIsTimeUp(false);
+    setSelectedAnswerIds([]);
+    setResponse('');
+    setHintsUsed(0);
+    setCheckStatus('idle');
+    setCheckError(null);
+    setRenderError(null);
+    setCheckResult(null);
+  }, []);
+
+  const restoreAttempt = useCallback(
+    (questionId: string) => {
+      if (!attemptStorage) {
+        restoredQuestionIdRef.current = questionId;
+        return;
+      }
+
+      attemptStorage
+        .load(questionId)
+        .catch(() => null)
+        .then((snapshot) => {
+          if (questionIdRef.current !== questionId) {
+            return;
+          }
+
+          restoredQuestionIdRef.current = questionId;
+          if (!snapshot || hasInteractedRef.current) {
+            return;
+          }
+
+          setSelectedAnswerIds(snapshot.selectedAnswerIds);
+          setResponse(snapshot.response ?? '');
+          setHintsUsed(Math.min(Math.max(snapshot.hintsUsed ?? 0, 0), hintCount));
+          if (isExam) {
+            onAnswerChangeRef.current?.({
+              questionId,
+              answerIds: snapshot.selectedAnswerIds,
+              ...(snapshot.response !== undefined
+                ? { response: snapshot.response }
+                : { multiple: isMultiple })
+            });
+          } else {
+            setCheckResult(snapshot.checkResult);
+            setCheckStatus(snapshot.checkResult ? 'success' : 'idle');
+          }
+
+          const elapsedMs = snapshot.elapsedMs ?? snapshot.checkResult?.elapsedMs;
+          if (elapsedMs !== undefined) {
+            setElapsedMs(elapsedMs);
+          }
+          if (snapshot.checkResult?.timedOut) {
+            timeUpRef.current = true;
+            setIsTimeUp(true);
+          }
+        });
+    },
+    [attemptStorage, hintCount, isExam, isMultiple, setElapsedMs]
+  );
+
+  useEffect(() => {
+    if (!question?.id) {
+      return;
+    }
+
+    if (questionIdRef.current !== question.id) {
+      questionIdRef.current = question.id;
+      resetState();
+      const initial = initialAnswerRef.current;
+      if (initial) {
+        hasInteractedRef.current = true;
+        setSelectedAnswerIds(initial.answerIds);
+        setResponse(initial.response ?? '');
+      }
+      const result = initialResultRef.current;
+      if (result) {
+        hasInteractedRef.current = true;
+        setHintsUsed(Math.min(result.hintsUsed ?? 0, hintCount));
+        setCheckResult(result);
+        setCheckStatus('success');
+        if (result.elapsedMs !== undefined) {
+          setElapsedMs(result.elapsedMs);
+        }
+        if (result.timedOut) {
+          timeUpRef.current = true;
+          setIsTimeUp(true);
+        }
+      }
+      const timing = initialTimingRef.current;
+      if (timing) {
+        setElapsedMs(timing.elapsedMs);
+        if (timing.timedOut) {
+          timeUpRef.current = true;
+          setIsTimeUp(true);
+        }
+      }
+      restoreAttempt(question.id);
+      viewedAtRef.current = Date.now();
+      track({
+        type: 'question_view',
+        questionId: question.id,
+        timestamp: viewedAtRef.current,
+        displayedAnswerIds
+      });
+    }
+  }, [
+    displayedAnswerIds,
+    hintCount,
+    question?.id,
+    resetState,
+    restoreAttempt,
+    setElapsedMs,
+    track
+  ]);
+
+  const saveAttempt = useCallback(() => {
+    if (!attemptStorage || !question?.id || restoredQuestionIdRef.current !== question.id) {
+      return;
+    }
+
+    if (checkStatus === 'checking') {
+      return;
+    }
+
+    attemptStorage
+      .save(question.id, {
+        selectedAnswerIds,
+        ...(isFreeResponse ? { response } : {}),
+        ...(hintsUsed > 0 ? { hintsUsed } : {}),
+        ...(timeLimitMs !== undefined ? { elapsedMs: getElapsedMs() } : {}),
+        checkResult: checkStatus === 'success' ? checkResult : null,
+        savedAt: Date.now()
+      })
+      .catch(() => undefined);
+  }, [
+    attemptStorage,
+    checkResult,
+    checkStatus,
+    getElapsedMs,
+    hintsUsed,
+    isFreeResponse,
+    question?.id,
+    response,
+    selectedAnswerIds,
+    timeLimitMs
+  ]);
+  saveAttemptRef.current = saveAttempt;
+
+  useEffect(() => {
+    saveAttempt();
+  }, [saveAttempt]);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleRenderError = useCallback((error: Error) => {
+    setRenderError((prev) => prev ?? error);
+  }, []);
+
+  useEffect(() => {
+    if (renderError && questionIdRef.current) {
+      track({
+        type: 'render_error',
+        questionId: questionIdRef.current,
+        timestamp: Date.now(),
+        message: renderError.message
+      });
+    }
+  }, [renderError, track]);
+
+  const handleSelectAnswer = useCallback(
+    (answerId: string) => {
+      if (checkStatus === 'checking' || timeUpRef.current) {
+        return;
+      }
+
+      hasInteractedRef.current = true;
+      if (question) {
+        const timestamp = Date.now();
+        track({
+          type: 'answer_select',
+          questionId: question.id,
+          timestamp,
+          answerId,
+          selected: !isMultiple || !selectedAnswerIds.includes(answerId),
+          timeToFirstSelectionMs: hasSelectedRef.current
+            ? undefined
+            : timestamp - viewedAtRef.current
+        });
+        hasSelectedRef.current = true;
+      }
+
+      const nextAnswerIds = !isMultiple
+        ? [answerId]
+        : selectedAnswerIds.includes(answerId)
+          ? selectedAnswerIds.filter((id) => id !== answerId)
+          : [...selectedAnswerIds, answerId];
+      setSelectedAnswerIds(nextAnswerIds);
+      if (question) {
+        onAnswerChangeRef.current?.({
+          questionId: question.id,
+          answerIds: nextAnswerIds,
+          multiple: isMultiple
+        });
+      }
+      if (checkStatus === 'success' || checkStatus === 'error') {
+        setCheckStatus('idle');
+        setCheckError(null);
+        setCheckResult(null);
+      }
+    },
+    [checkStatus, isMultiple, question, selectedAnswerIds, track]
+  );
+
+  const handleResponseChange = useCallback(
+    (value: string) => {
+      if (checkStatus === 'checking' || timeUpRef.current) {
+        return;
+      }
+
+      hasInteractedRef.current = true;
+      setResponse(value);
+      if (question) {
+        onAnswerChangeRef.current?.({ questionId: question.id, answerIds: [], response: value });
+      }
+      if (checkStatus === 'success' || checkStatus === 'error') {
+        setCheckStatus('idle');
+        setCheckError(null);
+        setCheckResult(null);
+      }
+    },
+    [checkStatus, question]
+  );
+
+  const handleShowHint = useCallback(() => {
+    if (!question || isHintsLocked || hintsUsed >= hintCount || checkStatus === 'checking') {
+      return;
+    }
+
+    hasInteractedRef.current = true;
+    track({
+      type: 'hint_reveal',
+      questionId: question.id,
+      timestamp: Date.now(),
+      hintIndex: hintsUsed,
+      hintCount
+    });
+    setHintsUsed(hintsUsed + 1);
+  }, [checkStatus, hintCount, hintsUsed, isHintsLocked, question, track]);
+
+  const handleUpgradeClick = useCallback(
+    (feature: GatedFeature) => {
+      if (question) {
+        track({ type: 'upgrade_click', questionId: question.id, timestamp: Date.now(), feature });
+      }
+
+      return onUpgradeClick ? onUpgradeClick(feature) : requestUpgrade(feature);
+    },
+    [onUpgradeClick, question, requestUpgrade, track]
+  );
+
+  const runCheck = useCallback((isRetry: boolean) => {
+    const hasAnswer = isFreeResponse ? response.trim() !== '' : selectedAnswerIds.length > 0;
+    if (!question || isExam || !hasAnswer || checkStatus === 'checking') {
+      return;
+    }
+
+    if (!canCheck() || (checkStatus === 'success' && !capabilities.retries)) {
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = controller;
+
+    const currentSeq = ++requestSeq.current;
+    const questionId = question.id;
+    const answerIds = isFreeResponse ? [] : selectedAnswerIds;
+    const submittedResponse = isFreeResponse ? response : undefined;
+    const attempt = ++attemptRef.current;
+    const requestedAt = Date.now();
+    const timing =
+      timeLimitMs === undefined
+        ? {}
+        : { elapsedMs: getElapsedMs(), ...(timeUpRef.current ? { timedOut: true } : {}) };
+
+    if (isRetry) {
+      track({ type: 'retry', questionId, timestamp: requestedAt, attempt });
+    }
+
+    track({
+      type: 'check_request',
+      questionId,
+      timestamp: requestedAt,
+      answerIds,
+      response: submittedResponse,
+      attempt,
+      timeToCheckMs: requestedAt - viewedAtRef.current
+    });
+
+    setCheckStatus('checking');
+    setCheckError(null);
+    setCheckResult(null);
+
+    const request: Promise<AnyCheckResult> =
+      submittedResponse !== undefined
+        ? checkResponseImpl(questionId, submittedResponse, { signal: controller.signal })
+        : isMultiple
+          ? checkMultipleAnswersImpl(questionId, answerIds, { signal: controller.signal })
+          : checkAnswerImpl(questionId, answerIds[0], { signal: controller.signal });
+
+    request
+      .then((result) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        if (requestSeq.current !== currentSeq) {
+          return;
+        }
+
+        if (questionIdRef.current !== questionId) {
+          return;
+        }
+
+        const reportedResult: AnyCheckResult = {
+          ...result,
+          displayedAnswerIds,
+          ...(hintsUsed > 0 ? { hintsUsed, hintPenalty: hintsUsed * hintPenalty } : {}),
+          ...timing
+        };
+        const timestamp = Date.now();
+        track({
+          type: 'check_result',
+          questionId,
+          timestamp,
+          answerIds,
+          response: submittedResponse,
+          displayedAnswerIds,
+          attempt,
+          latencyMs: timestamp - requestedAt,
+          isCorrect: result.isCorrect,
+          score: getResultScore(reportedResult)
+        });
+        setCheckResult(reportedResult);
+        setCheckStatus('success');
+        shouldFocusResultRef.current = true;
+        recordCheck();
+        onCheckResult?.(reportedResult);
+      })
+      .catch((error) => {
+        if ((error as Error & { name?: string }).name === 'AbortError') {
+          return;
+        }
+
+        if (requestSeq.current !== currentSeq) {
+          return;
+        }
+
+        const normalizedError = normalizeCheckError(error);
+        const timestamp = Date.now();
+        track({
+          type: 'check_error',
+          questionId,
+          timestamp,
+          answerIds,
+          response: submittedResponse,
+          attempt,
+          latencyMs: timestamp - requestedAt,
+          code: normalizedError.code,
+          message: normalizedError.message
+        });
+        setCheckStatus('error');
+        setCheckError(normalizedError);
+      });
+  }, [
+    canCheck,
+    capabilities.retries,
+    checkAnswerImpl,
+    checkMultipleAnswersImpl,
+    checkResponseImpl,
+    checkStatus,
+    displayedAnswerIds,
+    getElapsedMs,
+    hintPenalty,
+    hintsUsed,
+    isExam,
+    isFreeResponse,
+    isMultiple,
+    onCheckResult,
+    question,
+    recordCheck,
+    response,
+    selectedAnswerIds,
+    timeLimitMs,
+    track
+  ]);
+
+  const handleCheck = useCallback(() => runCheck(false), [runCheck]);
+
+  const handleRetry = useCallback(() => runCheck(true), [runCheck]);
+
+  const handleTimeUp = useCallback(() => {
+    if (!question || timeLimitMs === undefined || timeUpRef.current) {
+      return;
+    }
+
+    // Guards against a stale countdown right after the question changed.
+    const elapsedMs = getElapsedMs();
+    if (elapsedMs < timeLimitMs) {
+      return;
+    }
+
+    timeUpRef.current = true;
+    setIsTimeUp(true);
+
+    const hasAnswer = isFreeResponse ? response.trim() !== '' : selectedAnswerIds.length > 0;
+    track({
+      type: 'time_expired',
+      questionId: question.id,
+      timestamp: Date.now(),
+      answered: hasAnswer,
+      elapsedMs
+    });
+    onTimeChangeRef.current?.(question.id, { elapsedMs, timedOut: true });
+
+    if (isExam) {
+      return;
+    }
+
+    if (hasAnswer && canCheck()) {
+      handleCheck();
+      return;
+    }
+
+    const result: TimedOutResult = {
+      isCorrect: false,
+      timedOut: true,
+      elapsedMs,
+      displayedAnswerIds,
+      ...(hintsUsed > 0 ? { hintsUsed, hintPenalty: hintsUsed * hintPenalty } : {})
+    };
+    setCheckResult(result);
+    setCheckStatus('success');
+    shouldFocusResultRef.current = true;
+    onCheckResult?.(result);
+  }, [
+    canCheck,
+    displayedAnswerIds,
+    getElapsedMs,
+    handleCheck,
+    hintPenalty,
+    hintsUsed,
+    isExam,
+    isFreeResponse,
+    onCheckResult,
+    question,
+    response,
+    selectedAnswerIds,
+    timeLimitMs,
+    track
+  ]);
+
+  useEffect(() => {
+    if (isExpired) {
+      handleTimeUp();
+    }
+  }, [handleTimeUp, isExpired]);
+
+  useEffect(() => {
+    if (checkStatus !== 'success' || !shouldFocusResultRef.current) {
+      return;
+    }
+
+    shouldFocusResultRef.current = false;
+    (explanationRef.current ?? statusRef.current)?.focus();
+  }, [checkStatus]);
+
+  if (isLoading || !question) {
+    return <QuestionSkeleton theme={theme} />;
+  }
+
+  const showExplanation = checkStatus === 'success';
+  const revealCorrectness = !isExam && showExplanation && !!checkResult;
+  const isChecksLimitReached = checksRemaining === 0 && checkStatus !== 'success';
+  const isRetryLocked = showExplanation && !capabilities.retries;
+  const hasAnswer = isFreeResponse ? response.trim() !== '' : selectedAnswerIds.length > 0;
+  const isCheckDisabled = !hasAnswer || checkStatus === 'checking' || isChecksLimitReached;
+  const ResponseInputComponent =
+    question.kind === 'numeric' ? NumericResponseInput : TextResponseInput;
+
+  return (
+    <MessagesProvider messages={messages}>
+      <section
+        className={cx('question-card', themeProps.className)}
+        style={themeProps.style}
+        data-question-id={question.id}
+      >
+        {timeLimitMs !== undefined ? (
+          <Countdown
+            key={`${question.id}:${restoreCount}`}
+            limitMs={timeLimitMs}
+            getElapsedMs={getElapsedMs}
+            warningsMs={timeWarningsMs}
+          />
+        ) : null}
+
+        <QuestionStem
+          content={question.stem}
+          onRenderError={handleRenderError}
+          katexRenderer={katexRenderer}
+          extensions={extensions}
+          urlPolicy={urlPolicy}
+          codeHighlighter={codeHighlighter}
+          boundaryKey={question.id}
+          id={stemId}
+        />
+
+        {renderError ? (
+          <InlineError
+            title={t('questionCard.renderErrorTitle')}
+            message={renderError.message}
+          />
+        ) : null}
+
+        {isFreeResponse ? (
+          <ResponseInputComponent
+            value={response}
+            onChange={handleResponseChange}
+            onSubmit={isExam ? undefined : handleCheck}
+            disabled={checkStatus === 'checking' || isRetryLocked || isTimeUp}
+            result={
+              revealCorrectness && checkResult && isResponseCheckResult(checkResult)
+                ? checkResult
+                : null
+            }
+            settings={question.response}
+            labelledBy={stemId}
+          />
+        ) : (
+          <AnswerOptions
+            options={displayedAnswers}
+            selectedAnswerId={selectedAnswerIds[0] ?? null}
+            selectedAnswerIds={selectedAnswerIds}
+            onSelect={handleSelectAnswer}
+            onSubmit={isExam ? undefined : handleCheck}
+            multiple={isMultiple}
+            disabled={checkStatus === 'checking' || isRetryLocked || isTimeUp}
+            revealCorrectness={revealCorrectness}
+            showFeedback={optionFeedbackPlacement === 'inline'}
+            feedbackLocked={isExplanationLocked}
+            onUpgradeClick={() => handleUpgradeClick('explanation')}
+            correctAnswerId={
+              checkResult && 'correctAnswerId' in checkResult
+                ? checkResult.correctAnswerId
+                : undefined
+            }
+            correctAnswerIds={
+              checkResult && isMultiCheckResult(checkResult)
+                ? checkResult.correctAnswerIds
+                : undefined
+            }
+            labelledBy={stemId}
+            onRenderError={handleRenderError}
+            katexRenderer={katexRenderer}
+            extensions={extensions}
+            urlPolicy={urlPolicy}
+            codeHighlighter={codeHighlighter}
+          />
+        )}
+
+        {isExam ? (
+          <p className="question-card__exam-note" role="status">
+            {hasAnswer ? t('exam.saved') : t('exam.prompt')}
+          </p>
+        ) : (
+          <>
+            <ActionBar
+              onCheck={handleCheck}
+              disabled={isCheckDisabled}
+              status={checkStatus}
+              checkResult={checkResult}
+              statusRef={statusRef}
+              onShowHint={isHintsLocked || showExplanation ? undefined : handleShowHint}
+              hintsRevealed={hintsUsed}
+              hintCount={hintCount}
+              hintPenalty={hintPenalty}
+              freeResponse={isFreeResponse}
+            />
+
+            <Hints
+              hints={question.hints ?? []}
+              revealedCount={isHintsLocked ? 0 : hintsUsed}
+              onRenderError={handleRenderError}
+              katexRenderer={katexRenderer}
+              extensions={extensions}
+              urlPolicy={urlPolicy}
+              codeHighlighter={codeHighlighter}
+              boundaryKey={question.id}
+            />
+
+            {isHintsLocked && hintCount > 0 && !showExplanation ? (
+              <LockedFeatureNotice feature="hints" onUpgradeClick={handleUpgradeClick} />
+            ) : null}
+
+            {isChecksLimitReached ? (
+              <LockedFeatureNotice
+                feature="checks"
+                values={{ count: capabilities.checksPerDay }}
+                onUpgradeClick={handleUpgradeClick}
+              />
+            ) : null}
+
+            {isRetryLocked ? (
+              <LockedFeatureNotice feature="retries" onUpgradeClick={handleUpgradeClick} />
+            ) : null}
+
+            {checkStatus === 'error' && checkError ? (
+              <InlineError
+                title={t('questionCard.checkErrorTitle')}
+                message={
+                  checkError.code
+                    ? t(`checkError.${checkError.code}`)
+                    : checkError.message || t('checkError.unknown')
+                }
+                actionLabel={
+                  checkError.code === 'unauthorized' ? undefined : t('questionCard.retry')
+                }
+                onAction={handleRetry}
+              />
+            ) : null}
+
+            <Explanation
+              content={question.explanation}
+              optionFeedback={
+                optionFeedbackPlacement === 'explanation'
+                  ? displayedAnswers.filter((answer) => selectedAnswerIds.includes(answer.id))
+                  : undefined
+              }
+              visible={showExplanation}
+              demoMode={isExplanationLocked}
+              onUpgradeClick={() => handleUpgradeClick('explanation')}
+              onRenderError={handleRenderError}
+              katexRenderer={katexRenderer}
+              extensions={extensions}
+              urlPolicy={urlPolicy}
+              codeHighlighter={codeHighlighter}
+              boundaryKey={question.id}
+              containerRef={explanationRef}
+            />
+          </>
+        )}
+      </section>
+    </MessagesProvider>
+  );
+};
+
+export type QuizQuestionStatus = 'unanswered' | 'correct' | 'incorrect' | 'skipped';
+
+export type QuizQuestionRecord = {
+  status: QuizQuestionStatus;
+  score: number;
+  result?: AnyCheckResult;
+};
+
+export type QuizSessionState = {
+  currentIndex: number;
+  records: Record<string, QuizQuestionRecord>;
+  finished: boolean;
+};
+
+export type QuizSessionAction =
+  | { type: 'record'; questionId: string; result: AnyCheckResult }
+  | { type: 'skip'; questionId: string }
+  | { type: 'goTo'; index: number; questionCount: number }
+  | { type: 'finish' }
+  | { type: 'restart' };
+
+export type QuizSessionSummary = {
+  score: number;
+  maxScore: number;
+  correct: number;
+  incorrect: number;
+  skipped: number;
+  unanswered: number;
+};
+
+export const getResultScore = (result: AnyCheckResult) =>
+  Math.max(
+    (isMultiCheckResult(result) ? result.score : Number(result.isCorrect)) -
+      (result.hintPenalty ?? 0),
+    0
+  );
+
+export const createQuizSessionState = (): QuizSessionState => ({
+  currentIndex: 0,
+  records: {},
+  finished: false
+});
+
+const isOpenRecord = (record?: QuizQuestionRecord) =>
+  !record || record.status === 'unanswered' || record.status === 'skipped';
+
+export const quizSessionReducer = (
+  state: QuizSessionState,
+  action: QuizSessionAction
+): QuizSessionState => {
+  switch (action.type) {
+    case 'record': {
+      // Only the first checked attempt counts towards the score.
+      if (!isOpenRecord(state.records[action.questionId])) {
+        return state;
+      }
+
+      return {
+        ...state,
+        records: {
+          ...state.records,
+          [action.questionId]: {
+            status: action.result.isCorrect ? 'correct' : 'incorrect',
+            score: getResultScore(action.result),
+            result: action.result
+          }
+        }
+      };
+    }
+    case 'skip': {
+      if (state.records[action.questionId]) {
+        return state;
+      }
+
+      return {
+        ...state,
+        records: { ...state.records, [action.questionId]: { status: 'skipped', score: 0 } }
+      };
+    }
+    case 'goTo': {
+      const index = Math.min(Math.max(action.index, 0), Math.max(action.questionCount - 1, 0));
+      return index === state.currentIndex ? state : { ...state, currentIndex: index };
+    }
+    case 'finish':
+      return { ...state, finished: true };
+    case 'restart':
+      return createQuizSessionState();
+    default:
+      return state;
+  }
+};
+
+export const summarizeQuizSession = (
+  questions: Question[],
+  state: QuizSessionState
+): QuizSessionSummary =>
+  questions.reduce<QuizSessionSummary>(
+    (summary, question) => {
+      const record = state.records[question.id];
+      const status = record?.status ?? 'unanswered';
+      return {
+        ...summary,
+        score: summary.score + (record?.score ?? 0),
+        [status]: summary[status] + 1
+      };
+    },
+    { score: 0, maxScore: questions.length, correct: 0, incorrect: 0, skipped: 0, unanswered: 0 }
+  );
+
+export type QuizSessionOptions = {
+  /** Called once each time the session finishes. */
+  onFinish?: (summary: QuizSessionSummary) => void;
+};
+
+export const useQuizSession = (questions: Question[], { onFinish }: QuizSessionOptions = {}) => {
+  const [state, dispatch] = useReducer(quizSessionReducer, undefined, createQuizSessionState);
+  const questionCount = questions.length;
+
+  const currentQuestion = questions[state.currentIndex] ?? null;
+  const summary = useMemo(() => summarizeQuizSession(questions, state), [questions, state]);
+  const isLast = state.currentIndex >= questions.length - 1;
+  const onFinishRef = useRef(onFinish);
+  onFinishRef.current = onFinish;
+  const finishReportedRef = useRef(false);
+
+  // `summary` is re-memoized whenever the parent passes a new `questions` array,
+  // so report only the transition into the finished state.
+  useEffect(() => {
+    if (!state.finished) {
+      finishReportedRef.current = false;
+      return;
+    }
 
-export const QuestionSkeleton = () => (
-  <div className="question-card question-card--loading">
-    <div className="skeleton skeleton--stem" />
-    <div className="skeleton skeleton--option" />
-    <div className="skeleton skeleton--option" />
-    <div className="skeleton skeleton--option" />
-    <div className="skeleton skeleton--action" />
-  </div>
-);
+    if (!finishReportedRef.current) {
+      finishReportedRef.current = true;
+      onFinishRef.current?.(summary);
+    }
+  }, [state.finished, summary]);
 
-export const QuestionStem = ({
-  content,
-  onRenderError,
-  katexRenderer,
-  boundaryKey
-}: {
-  content: TipTapNode | string;
-  onRenderError?: (error: Error) => void;
-  katexRenderer?: KatexRenderer;
-  boundaryKey?: React.Key;
-}) => (
-  <RenderErrorBoundary
-    key={boundaryKey}
-    onError={onRenderError}
-    fallback={<div className="question-stem__fallback">Content failed to render.</div>}
-  >
-    <div className="question-stem">
-      <TipTapRenderer content={content} onRenderError={onRenderError} katexRenderer={katexRenderer} />
-    </div>
-  </RenderErrorBoundary>
-);
+  const record = useCallback(
+    (questionId: string, result: AnyCheckResult) =>
+      dispatch({ type: 'record', questionId, result }),
+    []
+  );
 
-export const AnswerOptions = ({
-  options,
-  selectedAnswerId,
-  onSelect,
-  disabled = false,
-  revealCorrectness = false,
-  correctAnswerId,
-  onRenderError,
-  katexRenderer
-}: {
-  options: AnswerOption[];
-  selectedAnswerId: string | null;
-  onSelect: (answerId: string) => void;
-  disabled?: boolean;
-  revealCorrectness?: boolean;
-  correctAnswerId?: string;
-  onRenderError?: (error: Error) => void;
-  katexRenderer?: KatexRenderer;
-}) => {
-  return (
-    <ul className="answer-options">
-      {options.map((option) => {
-        const isSelected = option.id === selectedAnswerId;
-        const isCorrect = revealCorrectness && option.id === correctAnswerId;
-        const isIncorrect = revealCorrectness && isSelected && !isCorrect;
+  const goTo = useCallback(
+    (index: number) => dispatch({ type: 'goTo', index, questionCount }),
+    [questionCount]
+  );
 
-        return (
-          <li key={option.id} className="answer-options__item">
-            <button
-              type="button"
-              disabled={disabled}
-              className={cx(
-                'answer-options__button',
-                isSelected && 'is-selected',
-                isCorrect && 'is-correct',
-                isIncorrect && 'is-incorrect'
-              )}
-              onClick={() => onSelect(option.id)}
-            >
-              <span className="answer-options__marker" />
-              <span className="answer-options__content">
-                <TipTapRenderer
-                  content={option.content}
-                  onRenderError={onRenderError}
-                  katexRenderer={katexRenderer}
-                  variant="inline"
-                />
-              </span>
-              {isCorrect ? (
-                <span className="answer-options__status">Correct</span>
-              ) : null}
-              {isIncorrect ? (
-                <span className="answer-options__status">Incorrect</span>
-              ) : null}
-            </button>
-          </li>
-        );
-      })}
-    </ul>
+  const previous = useCallback(
+    () => dispatch({ type: 'goTo', index: state.currentIndex - 1, questionCount }),
+    [questionCount, state.currentIndex]
   );
+
+  const next = useCallback(() => {
+    if (currentQuestion && !state.records[currentQuestion.id]) {
+      dispatch({ type: 'skip', questionId: currentQuestion.id });
+    }
+
+    dispatch(
+      isLast
+        ? { type: 'finish' }
+        : { type: 'goTo', index: state.currentIndex + 1, questionCount }
+    );
+  }, [currentQuestion, isLast, questionCount, state.currentIndex, state.records]);
+
+  const finish = useCallback(() => dispatch({ type: 'finish' }), []);
+
+  const restart = useCallback(() => dispatch({ type: 'restart' }), []);
+
+  return {
+    state,
+    currentQuestion,
+    summary,
+    isLast,
+    record,
+    goTo,
+    previous,
+    next,
+    finish,
+    restart
+  };
 };
 
-export const ActionBar = ({
-  onCheck,
-  disabled,
-  status,
-  checkResult
+const quizStatusMessageKeys: Record<QuizQuestionStatus, MessageKey> = {
+  unanswered: 'quiz.status.unanswered',
+  correct: 'quiz.status.correct',
+  incorrect: 'quiz.status.incorrect',
+  skipped: 'quiz.status.skipped'
+};
+
+export const QuizProgress = ({
+  questions,
+  state,
+  onJump,
+  answeredIds,
+  messages
 }: {
-  onCheck: () => void;
-  disabled: boolean;
-  status: CheckStatus;
-  checkResult?: CheckResult | null;
+  questions: Question[];
+  state: QuizSessionState;
+  onJump?: (index: number) => void;
+  answeredIds?: string[];
+  messages?: Partial<MessageCatalog>;
 }) => {
-  const statusMessage =
-    status === 'checking'
-      ? 'Checking...'
-      : status === 'success' && checkResult
-        ? checkResult.isCorrect
-          ? 'Correct answer.'
-          : 'Answer is incorrect.'
-        : status === 'error'
-          ? 'Check failed. Try again.'
-          : 'Select an answer to continue.';
+  const t = useMessages(messages);
 
   return (
-    <div className="action-bar">
-      <button
-        type="button"
-        className="action-bar__check"
-        onClick={onCheck}
-        disabled={disabled}
-      >
-        Check Answer
-      </button>
-      <span className="action-bar__status">{statusMessage}</span>
+    <div className="quiz-progress">
+      <span className="quiz-progress__label">
+        {t('quiz.progress', { index: state.currentIndex + 1, count: questions.length })}
+      </span>
+      <ol className="quiz-progress__steps">
+        {questions.map((question, index) => {
+          const status = state.records[question.id]?.status ?? 'unanswered';
+          const isAnswered = status === 'unanswered' && !!answeredIds?.includes(question.id);
+          return (
+            <li key={question.id}>
+              <button
+                type="button"
+                className={cx(
+                  'quiz-progress__step',
+                  `is-${status}`,
+                  isAnswered && 'is-answered',
+                  index === state.currentIndex && 'is-current'
+                )}
+                aria-label={t('quiz.stepLabel', {
+                  index: index + 1,
+                  status: isAnswered
+                    ? t('quiz.status.answered')
+                    : t(quizStatusMessageKeys[status])
+                })}
+                aria-current={index === state.currentIndex ? 'step' : undefined}
+                onClick={onJump ? () => onJump(index) : undefined}
+                disabled={!onJump}
+              />
+            </li>
+          );
+        })}
+      </ol>
     </div>
   );
 };
 
-export const Explanation = ({
-  content,
-  visible,
-  demoMode,
-  onUpgradeClick,
-  onRenderError,
-  katexRenderer,
-  boundaryKey
+export const QuizSummary = ({
+  questions,
+  state,
+  summary,
+  onRestart,
+  messages,
+  theme
 }: {
-  content?: TipTapNode | string | null;
-  visible: boolean;
-  demoMode: boolean;
-  onUpgradeClick?: () => void;
-  onRenderError?: (error: Error) => void;
-  katexRenderer?: KatexRenderer;
-  boundaryKey?: React.Key;
+  questions: Question[];
+  state: QuizSessionState;
+  summary: QuizSessionSummary;
+  onRestart?: () => void;
+  messages?: Partial<MessageCatalog>;
+  theme?: QuestionCardThemeSetting;
 }) => {
-  if (!visible) {
-    return null;
+  const t = useMessages(messages);
+  const themeProps = useQuestionCardTheme(theme);
+
+  return (
+    <section
+      className={cx('question-card', 'quiz-summary', themeProps.className)}
+      style={themeProps.style}
+    >
+      <h2 className="quiz-summary__title">{t('quiz.complete')}</h2>
+      <p className="quiz-summary__score">
+        {t('quiz.score', { score: summary.score, max: summary.maxScore })}
+      </p>
+      <ol className="quiz-summary__list">
+        {questions.map((question) => {
+          const status = state.records[question.id]?.status ?? 'unanswered';
+          return (
+            <li key={question.id} className={cx('quiz-summary__item', `is-${status}`)}>
+              <span className="quiz-summary__stem">{renderTipTapToText(question.stem)}</span>
+              <span className="quiz-summary__status">{t(quizStatusMessageKeys[status])}</span>
+            </li>
+          );
+        })}
+      </ol>
+      {onRestart ? (
+        <button type="button" className="quiz-summary__restart" onClick={onRestart}>
+          {t('quiz.restart')}
+        </button>
+      ) : null}
+    </section>
+  );
+};
+
+const getCheckedAnswer = (
+  result: AnyCheckResult
+): Pick<AnswerSubmission, 'answerIds' | 'response'> | undefined => {
+  if (isResponseCheckResult(result)) {
+    return { answerIds: [], response: result.checkedResponse };
   }
 
-  if (!content) {
-    return <div className="explanation explanation--empty">Explanation is not available for this question.</div>;
+  if (isMultiCheckResult(result)) {
+    return { answerIds: result.checkedAnswerIds };
   }
 
-  const explanationContent = (
-    <RenderErrorBoundary
-      key={boundaryKey}
-      onError={onRenderError}
-      fallback={<div className="explanation__fallback">Explanation failed to render.</div>}
-    >
-      <TipTapRenderer content={content} onRenderError={onRenderError} katexRenderer={katexRenderer} />
-    </RenderErrorBoundary>
-  );
+  return isTimedOutResult(result) ? undefined : { answerIds: [result.checkedAnswerId] };
+};
 
-  if (demoMode) {
+export type QuizSessionProps = Omit<
+  QuestionCardProps,
+  'question' | 'initialAnswer' | 'initialResult' | 'onCheckResult'
+> & {
+  questions: Question[];
+  onFinish?: (summary: QuizSessionSummary) => void;
+};
+
+export const QuizSession = ({ questions, onFinish, ...cardProps }: QuizSessionProps) => {
+  const session = useQuizSession(questions, { onFinish });
+  const { attemptStorage, messages, theme } = cardProps;
+
+  const handleRestart = useCallback(() => {
+    questions.forEach((question) => {
+      attemptStorage?.clear(question.id).catch(() => undefined);
+    });
+    session.restart();
+  }, [attemptStorage, questions, session.restart]);
+  const { state, currentQuestion, summary, isLast } = session;
+  const t = useMessages(messages);
+  const themeProps = useQuestionCardTheme(theme);
+  if (state.finished) {
     return (
-      <div className="explanation explanation--locked">
-        <div className="explanation__blur">{explanationContent}</div>
-        <div className="explanation__overlay">
-          <div className="explanation__overlay-text">
-            Explanation is available in the full version.
-          </div>
-          <button
-            type="button"
-            className="explanation__cta"
-            onClick={onUpgradeClick}
-          >
-            Upgrade Access
-          </button>
-        </div>
-      </div>
+      <QuizSummary
+        questions={questions}
+        state={state}
+        summary={summary}
+        onRestart={handleRestart}
+        messages={messages}
+        theme={theme}
+      />
     );
   }
 
+  const recordedResult = currentQuestion ? state.records[currentQuestion.id]?.result : undefined;
+  const isAnswered = !!currentQuestion && !isOpenRecord(state.records[currentQuestion.id]);
+
   return (
-    <div className="explanation">
-      {explanationContent}
+    <div className={cx('quiz-session', themeProps.className)} style={themeProps.style}>
+      <div className="quiz-session__header">
+        <QuizProgress
+          questions={questions}
+          state={state}
+          onJump={session.goTo}
+          messages={messages}
+        />
+        <span className="quiz-session__score">
+          {t('quiz.score', { score: summary.score, max: summary.maxScore })}
+        </span>
+      </div>
+
+      <QuestionCard
+        {...cardProps}
+        question={currentQuestion}
+        initialAnswer={recordedResult ? getCheckedAnswer(recordedResult) : undefined}
+        initialResult={recordedResult}
+        onCheckResult={(result) => currentQuestion && session.record(currentQuestion.id, result)}
+      />
+
+      <div className="quiz-session__nav">
+        <button
+          type="button"
+          className="quiz-session__prev"
+          onClick={session.previous}
+          disabled={state.currentIndex === 0}
+        >
+          {t('quiz.previous')}
+        </button>
+        <button type="button" className="quiz-session__next" onClick={session.next}>
+          {isLast ? t('quiz.finish') : isAnswered ? t('quiz.next') : t('quiz.skip')}
+        </button>
+      </div>
     </div>
   );
 };
 
-export type QuestionCardProps = {
-  question: Question | null;
-  demoMode?: boolean;
-  isLoading?: boolean;
-  onUpgradeClick?: () => void;
-  checkAnswer?: (
-    questionId: string,
-    answerId: string,
-    options?: CheckAnswerOptions
-  ) => Promise<CheckResult>;
+const isAnsweredSubmission = (submission?: AnswerSubmission) =>
+  !!submission &&
+  (submission.response !== undefined
+    ? submission.response.trim() !== ''
+    : submission.answerIds.length > 0);
+
+type ExamReviewItemProps = {
+  question: Question;
+  index: number;
+  status: QuizQuestionStatus;
+  answer?: AnswerSubmission;
+  result?: AnyCheckResult;
+  isExplanationLocked: boolean;
+  onUpgradeClick: () => void;
+  shuffleSeed?: string;
   katexRenderer?: KatexRenderer;
+  extensions?: TipTapExtensions;
+  urlPolicy?: UrlPolicy;
+  codeHighlighter?: CodeHighlighter;
 };
 
-const normalizeCheckError = (error: unknown): CheckError => {
-  if (error instanceof Error) {
-    return { message: error.message };
-  }
+const ExamReviewItem = ({
+  question,
+  index,
+  status,
+  answer,
+  result,
+  isExplanationLocked,
+  onUpgradeClick,
+  shuffleSeed,
+  katexRenderer,
+  extensions,
+  urlPolicy,
+  codeHighlighter
+}: ExamReviewItemProps) => {
+  const t = useMessages();
+  const stemId = useId();
+  const [renderError, setRenderError] = useState<Error | null>(null);
+  const handleRenderError = useCallback((error: Error) => {
+    setRenderError((prev) => prev ?? error);
+  }, []);
+  const ResponseInputComponent =
+    question.kind === 'numeric' ? NumericResponseInput : TextResponseInput;
+  const responseResult = result && isResponseCheckResult(result) ? result : null;
+
+  return (
+    <li className={cx('exam-review__item', `is-${status}`)}>
+      <div className="exam-review__header">
+        <span className="exam-review__label">{t('exam.questionLabel', { index: index + 1 })}</span>
+        <span className="exam-review__status">
+          {status === 'unanswered' ? t('exam.notAnswered') : t(quizStatusMessageKeys[status])}
+        </span>
+      </div>
+
+      <QuestionStem
+        content={question.stem}
+        onRenderError={handleRenderError}
+        katexRenderer={katexRenderer}
+        extensions={extensions}
+        urlPolicy={urlPolicy}
+        codeHighlighter={codeHighlighter}
+        boundaryKey={question.id}
+        id={stemId}
+      />
 
-  return { message: 'Check failed. Please try again.' };
+      {renderError ? (
+        <InlineError title={t('questionCard.renderErrorTitle')} message={renderError.message} />
+      ) : null}
+
+      {isFreeResponseQuestion(question) ? (
+        <ResponseInputComponent
+          value={answer?.response ?? ''}
+          onChange={() => undefined}
+          disabled
+          result={
+            responseResult && status === 'unanswered'
+              ? { ...responseResult, feedback: undefined }
+              : responseResult
+          }
+          settings={question.response}
+          labelledBy={stemId}
+        />
+      ) : (
+        <AnswerOptions
+          options={getDisplayedAnswers(question, shuffleSeed)}
+          selectedAnswerId={answer?.answerIds[0] ?? null}
+          selectedAnswerIds={answer?.answerIds ?? []}
+          onSelect={() => undefined}
+          multiple={question.kind === 'multiple'}
+          disabled
+          revealCorrectness={!!result}
+          feedbackLocked={isExplanationLocked}
+          onUpgradeClick={onUpgradeClick}
+          correctAnswerId={
+            result && 'correctAnswerId' in result ? result.correctAnswerId : undefined
+          }
+          correctAnswerIds={
+            result && isMultiCheckResult(result) ? result.correctAnswerIds : undefined
+          }
+          labelledBy={stemId}
+          onRenderError={handleRenderError}
+          katexRenderer={katexRenderer}
+          extensions={extensions}
+          urlPolicy={urlPolicy}
+          codeHighlighter={codeHighlighter}
+        />
+      )}
+
+      <Explanation
+        content={question.explanation}
+        visible
+        demoMode={isExplanationLocked}
+        onUpgradeClick={onUpgradeClick}
+        onRenderError={handleRenderError}
+        katexRenderer={katexRenderer}
+        extensions={extensions}
+        urlPolicy={urlPolicy}
+        codeHighlighter={codeHighlighter}
+        boundaryKey={question.id}
+      />
+    </li>
+  );
 };
 
-export const QuestionCard = ({
-  question,
+export type ExamReviewProps = {
+  questions: Question[];
+  state: QuizSessionState;
+  summary: QuizSessionSummary;
+  answers: Record<string, AnswerSubmission>;
+  results: Record<string, AnyCheckResult>;
+  onRestart?: () => void;
+  demoMode?: boolean;
+  onUpgradeClick?: (feature: GatedFeature) => void;
+  /** Must match the seed the exam was taken with, so options keep their order. */
+  shuffleSeed?: string;
+  katexRenderer?: KatexRenderer;
+  extensions?: TipTapExtensions;
+  urlPolicy?: UrlPolicy;
+  codeHighlighter?: CodeHighlighter;
+  messages?: Partial<MessageCatalog>;
+  theme?: QuestionCardThemeSetting;
+};
+
+export const ExamReview = ({
+  questions,
+  state,
+  summary,
+  answers,
+  results,
+  onRestart,
   demoMode,
-  isLoading = false,
   onUpgradeClick,
-  checkAnswer: checkAnswerOverride,
-  katexRenderer
-}: QuestionCardProps) => {
-  const { demoMode: contextDemoMode } = useAppConfig();
-  const resolvedDemoMode = demoMode ?? contextDemoMode;
-  const checkAnswerImpl = checkAnswerOverride ?? checkAnswer;
-
-  const [selectedAnswerId, setSelectedAnswerId] = useState<string | null>(null);
-  const [checkStatus, setCheckStatus] = useState<CheckStatus>('idle');
-  const [checkError, setCheckError] = useState<CheckError | null>(null);
-  const [renderError, setRenderError] = useState<Error | null>(null);
-  const [checkResult, setCheckResult] = useState<CheckResult | null>(null);
+  shuffleSeed,
+  katexRenderer,
+  extensions,
+  urlPolicy,
+  codeHighlighter,
+  messages,
+  theme
+}: ExamReviewProps) => {
+  const { capabilities, requestUpgrade } = useEntitlements();
+  const t = useMessages(messages);
+  const themeProps = useQuestionCardTheme(theme);
+  const isExplanationLocked = !!demoMode || !capabilities.explanation;
+  const handleUpgradeClick = () => (onUpgradeClick ?? requestUpgrade)('explanation');
 
-  const requestSeq = useRef(0);
-  const abortControllerRef = useRef<AbortController | null>(null);
-  const questionIdRef = useRef<string | null>(null);
+  return (
+    <MessagesProvider messages={messages}>
+      <section
+        className={cx('question-card', 'exam-review', themeProps.className)}
+        style={themeProps.style}
+      >
+        <h2 className="quiz-summary__title">{t('exam.reviewTitle')}</h2>
+        <p className="quiz-summary__score">
+          {t('quiz.score', { score: summary.score, max: summary.maxScore })}
+        </p>
+        <ol className="exam-review__list">
+          {questions.map((question, index) => (
+            <ExamReviewItem
+              key={question.id}
+              question={question}
+              index={index}
+              status={state.records[question.id]?.status ?? 'unanswered'}
+              answer={answers[question.id]}
+              result={results[question.id]}
+              isExplanationLocked={isExplanationLocked}
+              onUpgradeClick={handleUpgradeClick}
+              shuffleSeed={shuffleSeed}
+              katexRenderer={katexRenderer}
+              extensions={extensions}
+              urlPolicy={urlPolicy}
+              codeHighlighter={codeHighlighter}
+            />
+          ))}
+        </ol>
+        {onRestart ? (
+          <button type="button" className="quiz-summary__restart" onClick={onRestart}>
+            {t('quiz.restart')}
+          </button>
+        ) : null}
+      </section>
+    </MessagesProvider>
+  );
+};
 
-  const resetState = useCallback(() => {
-    abortControllerRef.current?.abort();
-    abortControllerRef.current = null;
-    requestSeq.current += 1;
-    setSelectedAnswerId(null);
-    setCheckStatus('idle');
-    setCheckError(null);
-    setRenderError(null);
-    setCheckResult(null);
-  }, []);
+type ExamSubmitStatus = 'idle' | 'submitting' | 'error';
+
+export type ExamSessionProps = Omit<
+  QuestionCardProps,
+  | 'question'
+  | 'mode'
+  | 'initialAnswer'
+  | 'initialResult'
+  | 'onAnswerChange'
+  | 'initialTiming'
+  | 'onTimeChange'
+  | 'onCheckResult'
+> & {
+  questions: Question[];
+  /** Grades every question in one request; defaults to the mock `checkAnswerBatch`. */
+  checkAnswerBatch?: (
+    submissions: AnswerSubmission[],
+    options?: CheckAnswerOptions
+  ) => Promise<AnyCheckResult[]>;
+  onFinish?: (summary: QuizSessionSummary) => void;
+};
 
+/**
+ * Runs questions as a graded exam: answers can be changed until the exam is
+ * submitted, nothing is revealed before that, and `ExamReview` follows.
+ *
+ * `attemptStorage` keeps the answers and the time spent on every question until
+ * the exam is submitted; the cards themselves store nothing.
+ */
+export const ExamSession = ({
+  questions,
+  checkAnswerBatch: checkAnswerBatchOverride,
+  onFinish,
+  attemptStorage,
+  ...cardProps
+}: ExamSessionProps) => {
+  const session = useQuizSession(questions, { onFinish });
+  const { state, currentQuestion, summary, isLast } = session;
+  const { messages, theme } = cardProps;
+  const t = useMessages(messages);
+  const themeProps = useQuestionCardTheme(theme);
+  const checkAnswerBatchImpl = checkAnswerBatchOverride ?? checkAnswerBatch;
+  const [answers, setAnswers] = useState<Record<string, AnswerSubmission>>({});
+  const [timings, setTimings] = useState<Record<string, QuestionTiming>>({});
+  const [isRestored, setIsRestored] = useState(!attemptStorage);
+  const [results, setResults] = useState<Record<string, AnyCheckResult>>({});
+  const [submitStatus, setSubmitStatus] = useState<ExamSubmitStatus>('idle');
+  const [submitError, setSubmitError] = useState<CheckError | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   useEffect(() => {
-    if (!question?.id) {
+    if (!attemptStorage) {
       return;
     }
 
-    if (questionIdRef.current !== question.id) {
-      questionIdRef.current = question.id;
-      resetState();
-    }
-  }, [question?.id, resetState]);
+    let isCancelled = false;
+    Promise.all(
+      questions.map((question) => attemptStorage.load(question.id).catch(() => null))
+    ).then((snapshots) => {
+      if (isCancelled) {
+        return;
+      }
 
-  useEffect(() => () => abortControllerRef.current?.abort(), []);
+      const restoredAnswers: Record<string, AnswerSubmission> = {};
+      const restoredTimings: Record<string, QuestionTiming> = {};
+      snapshots.forEach((snapshot, index) => {
+        const question = questions[index];
+        if (!snapshot) {
+          return;
+        }
 
-  const handleRenderError = useCallback((error: Error) => {
-    setRenderError((prev) => prev ?? error);
-  }, []);
+        restoredAnswers[question.id] = isFreeResponseQuestion(question)
+          ? { questionId: question.id, answerIds: [], response: snapshot.response ?? '' }
+          : {
+              questionId: question.id,
+              answerIds: snapshot.selectedAnswerIds,
+              multiple: question.kind === 'multiple'
+            };
+        if (snapshot.elapsedMs !== undefined) {
+          const isTimedOut =
+            question.timeLimitMs !== undefined && snapshot.elapsedMs >= question.timeLimitMs;
+          restoredTimings[question.id] = {
+            elapsedMs: snapshot.elapsedMs,
+            ...(isTimedOut ? { timedOut: true } : {})
+          };
+        }
+      });
+      setAnswers((prev) => ({ ...restoredAnswers, ...prev }));
+      setTimings((prev) => ({ ...restoredTimings, ...prev }));
+      setIsRestored(true);
+    });
 
-  const handleSelectAnswer = useCallback(
-    (answerId: string) => {
-      if (checkStatus === 'checking') {
+    return () => {
+      isCancelled = true;
+    };
+  }, [attemptStorage, questions]);
+
+  useEffect(() => {
+    if (!attemptStorage || !isRestored || state.finished) {
+      return;
+    }
+
+    questions.forEach((question) => {
+      const answer = answers[question.id];
+      const timing = timings[question.id];
+      if (!answer && !timing) {
         return;
       }
 
-      setSelectedAnswerId(answerId);
-      if (checkStatus === 'success' || checkStatus === 'error') {
-        setCheckStatus('idle');
-        setCheckError(null);
-        setCheckResult(null);
-      }
-    },
-    [checkStatus]
+      attemptStorage
+        .save(question.id, {
+          selectedAnswerIds: answer?.answerIds ?? [],
+          ...(answer?.response !== undefined ? { response: answer.response } : {}),
+          ...(timing ? { elapsedMs: timing.elapsedMs } : {}),
+          checkResult: null,
+          savedAt: Date.now()
+        })
+        .catch(() => undefined);
+    });
+  }, [answers, attemptStorage, isRestored, questions, state.finished, timings]);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const answeredIds = useMemo(
+    () =>
+      questions
+        .filter((question) => isAnsweredSubmission(answers[question.id]))
+        .map((question) => question.id),
+    [answers, questions]
   );
 
-  const handleCheck = useCallback(() => {
-    if (!question || !selectedAnswerId || checkStatus === 'checking') {
+  const handleAnswerChange = useCallback((submission: AnswerSubmission) => {
+    setAnswers((prev) => ({ ...prev, [submission.questionId]: submission }));
+  }, []);
+
+  const handleTimeChange = useCallback((questionId: string, timing: QuestionTiming) => {
+    setTimings((prev) => ({ ...prev, [questionId]: timing }));
+  }, []);
+
+  const clearStoredAnswers = useCallback(() => {
+    questions.forEach((question) => {
+      attemptStorage?.clear(question.id).catch(() => undefined);
+    });
+  }, [attemptStorage, questions]);
+
+  const { record, finish, restart } = session;
+
+  const handleSubmit = useCallback(() => {
+    if (submitStatus === 'submitting') {
       return;
     }
 
+    const submissions = questions.map(
+      (question): AnswerSubmission =>
+        isFreeResponseQuestion(question)
+          ? {
+              questionId: question.id,
+              answerIds: [],
+              response: answers[question.id]?.response ?? ''
+            }
+          : {
+              questionId: question.id,
+              answerIds: answers[question.id]?.answerIds ?? [],
+              multiple: question.kind === 'multiple'
+            }
+    );
+
     const controller = new AbortController();
     abortControllerRef.current?.abort();
     abortControllerRef.current = controller;
+    setSubmitStatus('submitting');
+    setSubmitError(null);
 
-    const currentSeq = ++requestSeq.current;
-    const questionId = question.id;
-    const answerId = selectedAnswerId;
-
-    setCheckStatus('checking');
-    setCheckError(null);
-    setCheckResult(null);
-
-    checkAnswerImpl(questionId, answerId, { signal: controller.signal })
-      .then((result) => {
+    checkAnswerBatchImpl(submissions, { signal: controller.signal })
+      .then((batchResults) => {
         if (controller.signal.aborted) {
           return;
         }
 
-        if (requestSeq.current !== currentSeq) {
-          return;
-        }
-
-        if (questionIdRef.current !== questionId) {
-          return;
+        if (batchResults.length !== submissions.length) {
+          throw new CheckAnswerError('invalid_response', 'Unexpected batch check response');
         }
 
-        setCheckResult(result);
-        setCheckStatus('success');
+        const resultsById: Record<string, AnyCheckResult> = {};
+        submissions.forEach((submission, index) => {
+          resultsById[submission.questionId] = batchResults[index];
+          if (isAnsweredSubmission(submission)) {
+            record(submission.questionId, batchResults[index]);
+          }
+        });
+        setResults(resultsById);
+        setSubmitStatus('idle');
+        clearStoredAnswers();
+        finish();
       })
       .catch((error) => {
         if ((error as Error & { name?: string }).name === 'AbortError') {
           return;
         }
 
-        if (requestSeq.current !== currentSeq) {
-          return;
-        }
-
-        setCheckStatus('error');
-        setCheckError(normalizeCheckError(error));
+        setSubmitStatus('error');
+        setSubmitError(normalizeCheckError(error));
       });
-  }, [checkAnswerImpl, checkStatus, question, selectedAnswerId]);
-
-  if (isLoading || !question) {
-    return <QuestionSkeleton />;
+  }, [
+    answers,
+    checkAnswerBatchImpl,
+    clearStoredAnswers,
+    finish,
+    questions,
+    record,
+    submitStatus
+  ]);
+
+  const handleRestart = useCallback(() => {
+    clearStoredAnswers();
+    setAnswers({});
+    setTimings({});
+    setResults({});
+    setSubmitStatus('idle');
+    setSubmitError(null);
+    restart();
+  }, [clearStoredAnswers, restart]);
+
+  if (state.finished) {
+    return (
+      <ExamReview
+        questions={questions}
+        state={state}
+        summary={summary}
+        answers={answers}
+        results={results}
+        onRestart={handleRestart}
+        demoMode={cardProps.demoMode}
+        onUpgradeClick={cardProps.onUpgradeClick}
+        shuffleSeed={cardProps.shuffleSeed}
+        katexRenderer={cardProps.katexRenderer}
+        extensions={cardProps.extensions}
+        urlPolicy={cardProps.urlPolicy}
+        codeHighlighter={cardProps.codeHighlighter}
+        messages={messages}
+        theme={theme}
+      />
+    );
   }
 
-  const isCheckDisabled = !selectedAnswerId || checkStatus === 'checking';
-  const showExplanation = checkStatus === 'success';
-  const revealCorrectness = showExplanation && !!checkResult;
+  const isSubmitting = submitStatus === 'submitting';
+  const unansweredCount = questions.length - answeredIds.length;
 
   return (
-    <section className="question-card" data-question-id={question.id}>
-      <QuestionStem
-        content={question.stem}
-        onRenderError={handleRenderError}
-        katexRenderer={katexRenderer}
-        boundaryKey={question.id}
-      />
-
-      {renderError ? (
-        <InlineError
-          title="Some content failed to render"
-          message={renderError.message}
+    <div
+      className={cx('quiz-session', 'exam-session', themeProps.className)}
+      style={themeProps.style}
+    >
+      <div className="quiz-session__header">
+        <QuizProgress
+          questions={questions}
+          state={state}
+          onJump={session.goTo}
+          answeredIds={answeredIds}
+          messages={messages}
         />
-      ) : null}
-
-      <AnswerOptions
-        options={question.answers}
-        selectedAnswerId={selectedAnswerId}
-        onSelect={handleSelectAnswer}
-        disabled={checkStatus === 'checking'}
-        revealCorrectness={revealCorrectness}
-        correctAnswerId={checkResult?.correctAnswerId}
-        onRenderError={handleRenderError}
-        katexRenderer={katexRenderer}
-      />
+        <span className="quiz-session__score">
+          {t('exam.answeredCount', { count: answeredIds.length, total: questions.length })}
+        </span>
+      </div>
 
-      <ActionBar
-        onCheck={handleCheck}
-        disabled={isCheckDisabled}
-        status={checkStatus}
-        checkResult={checkResult}
-      />
+      {/* A disabled fieldset locks the answers while the batch is in flight. */}
+      <fieldset className="exam-session__fieldset" disabled={isSubmitting}>
+        <QuestionCard
+          {...cardProps}
+          mode="exam"
+          question={isRestored ? currentQuestion : null}
+          initialAnswer={currentQuestion ? answers[currentQuestion.id] : undefined}
+          onAnswerChange={handleAnswerChange}
+          initialTiming={currentQuestion ? timings[currentQuestion.id] : undefined}
+          onTimeChange={handleTimeChange}
+        />
+      </fieldset>
 
-      {checkStatus === 'error' && checkError ? (
+      {submitStatus === 'error' && submitError ? (
         <InlineError
-          title="Answer check failed"
-          message={checkError.message}
-          actionLabel="Retry"
-          onAction={handleCheck}
+          title={t('exam.submitErrorTitle')}
+          message={
+            submitError.code
+              ? t(`checkError.${submitError.code}`)
+              : submitError.message || t('checkError.unknown')
+          }
+          actionLabel={
+            submitError.code === 'unauthorized' ? undefined : t('questionCard.retry')
+          }
+          onAction={handleSubmit}
         />
       ) : null}
 
-      <Explanation
-        content={question.explanation}
-        visible={showExplanation}
-        demoMode={resolvedDemoMode}
-        onUpgradeClick={onUpgradeClick}
-        onRenderError={handleRenderError}
-        katexRenderer={katexRenderer}
-        boundaryKey={question.id}
-      />
-    </section>
+      <div className="quiz-session__nav">
+        <button
+          type="button"
+          className="quiz-session__prev"
+          onClick={session.previous}
+          disabled={state.currentIndex === 0 || isSubmitting}
+        >
+          {t('quiz.previous')}
+        </button>
+        <div className="exam-session__actions">
+          {isLast ? null : (
+            <button
+              type="button"
+              className="exam-session__next"
+              onClick={() => session.goTo(state.currentIndex + 1)}
+              disabled={isSubmitting}
+            >
+              {t('quiz.next')}
+            </button>
+          )}
+          <button
+            type="button"
+            className="quiz-session__next"
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? t('exam.submitting') : t('exam.submit')}
+          </button>
+        </div>
+      </div>
+
+      {unansweredCount > 0 ? (
+        <p className="exam-session__unanswered">
+          {t('exam.unanswered', { count: unansweredCount })}
+        </p>
+      ) : null}
+    </div>
   );
 };
 
+export type QuestionCardTheme = {
+  colors: {
+    background: string;
+    surface: string;
+    border: string;
+    text: string;
+    muted: string;
+    accent: string;
+    accentStrong: string;
+    onAccent: string;
+    focusRing: string;
+    error: string;
+    errorSurface: string;
+    warning: string;
+    warningSurface: string;
+    correct: string;
+    incorrect: string;
+    overlay: string;
+    codeSurface: string;
+    codeKeyword: string;
+    codeString: string;
+    codeComment: string;
+    codeNumber: string;
+    codeFunction: string;
+    highlight: string;
+    skeleton: string;
+    skeletonShine: string;
+  };
+  radii: {
+    card: string;
+    panel: string;
+    control: string;
+  };
+  fonts: {
+    body: string;
+    math: string;
+    mono: string;
+  };
+  shadows: {
+    card: string;
+  };
+};
+
+export type QuestionCardThemeOverrides = {
+  [Group in keyof QuestionCardTheme]?: Partial<QuestionCardTheme[Group]>;
+};
+
+/**
+ * `'auto'` follows `prefers-color-scheme`; a theme object is applied as CSS
+ * variables on the card root, so it only affects that card.
+ */
+export type QuestionCardThemeSetting = QuestionCardTheme | 'light' | 'dark' | 'auto';
+
+export const lightTheme: QuestionCardTheme = {
+  colors: {
+    background: 'linear-gradient(135deg, #f6f4ff 0%, #f9fbff 45%, #f2f8f6 100%)',
+    surface: '#ffffff',
+    border: '#e4e8f0',
+    text: '#1b1f2a',
+    muted: '#5e6575',
+    accent: '#1a7f72',
+    accentStrong: '#0f5c52',
+    onAccent: '#ffffff',
+    focusRing: 'rgba(26, 127, 114, 0.3)',
+    error: '#b42318',
+    errorSurface: 'rgba(254, 231, 226, 0.75)',
+    warning: '#b54708',
+    warningSurface: 'rgba(255, 241, 229, 0.6)',
+    correct: '#1a7f37',
+    incorrect: '#c01048',
+    overlay: 'rgba(255, 255, 255, 0.8)',
+    codeSurface: 'rgba(0, 0, 0, 0.06)',
+    codeKeyword: '#8b3fd9',
+    codeString: '#1a7f37',
+    codeComment: '#6e7781',
+    codeNumber: '#b54708',
+    codeFunction: '#0b63c4',
+    highlight: '#fff3a3',
+    skeleton: '#e6eaf1',
+    skeletonShine: '#f3f6fb'
+  },
+  radii: {
+    card: '18px',
+    panel: '14px',
+    control: '12px'
+  },
+  fonts: {
+    body: '"IBM Plex Sans", "Segoe UI", sans-serif',
+    math: '"STIX Two Math", "Cambria Math", serif',
+    mono: '"SFMono-Regular", Consolas, "Liberation Mono", Menlo, monospace'
+  },
+  shadows: {
+    card: '0 12px 30px rgba(25, 31, 42, 0.1)'
+  }
+};
+
+export const darkTheme: QuestionCardTheme = {
+  ...lightTheme,
+  colors: {
+    background: 'linear-gradient(135deg, #1c1b2b 0%, #171a22 45%, #14201e 100%)',
+    surface: '#1f2330',
+    border: '#343a4a',
+    text: '#e7e9ef',
+    muted: '#a0a7b8',
+    accent: '#3fb8a6',
+    accentStrong: '#62d1c0',
+    onAccent: '#0e1a18',
+    focusRing: 'rgba(63, 184, 166, 0.4)',
+    error: '#f97066',
+    errorSurface: 'rgba(180, 35, 24, 0.22)',
+    warning: '#fdb022',
+    warningSurface: 'rgba(181, 71, 8, 0.22)',
+    correct: '#47cd89',
+    incorrect: '#fd6f8e',
+    overlay: 'rgba(23, 26, 34, 0.85)',
+    codeSurface: 'rgba(255, 255, 255, 0.08)',
+    codeKeyword: '#d2a8ff',
+    codeString: '#7ee2a8',
+    codeComment: '#8b949e',
+    codeNumber: '#ffa657',
+    codeFunction: '#79c0ff',
+    highlight: 'rgba(253, 224, 71, 0.35)',
+    skeleton: '#2a2f3d',
+    skeletonShine: '#343a4a'
+  },
+  shadows: {
+    card: '0 12px 30px rgba(0, 0, 0, 0.4)'
+  }
+};
+
+export const createQuestionCardTheme = (
+  overrides: QuestionCardThemeOverrides,
+  base: QuestionCardTheme = lightTheme
+): QuestionCardTheme => ({
+  colors: { ...base.colors, ...overrides.colors },
+  radii: { ...base.radii, ...overrides.radii },
+  fonts: { ...base.fonts, ...overrides.fonts },
+  shadows: { ...base.shadows, ...overrides.shadows }
+});
+
+const themeVariableNames: {
+  [Group in keyof QuestionCardTheme]: Record<keyof QuestionCardTheme[Group], string>;
+} = {
+  colors: {
+    background: '--qc-bg',
+    surface: '--qc-surface',
+    border: '--qc-border',
+    text: '--qc-text',
+    muted: '--qc-muted',
+    accent: '--qc-accent',
+    accentStrong: '--qc-accent-strong',
+    onAccent: '--qc-on-accent',
+    focusRing: '--qc-focus-ring',
+    error: '--qc-error',
+    errorSurface: '--qc-error-surface',
+    warning: '--qc-warning',
+    warningSurface: '--qc-warning-surface',
+    correct: '--qc-correct',
+    incorrect: '--qc-incorrect',
+    overlay: '--qc-overlay',
+    codeSurface: '--qc-code-surface',
+    codeKeyword: '--qc-code-keyword',
+    codeString: '--qc-code-string',
+    codeComment: '--qc-code-comment',
+    codeNumber: '--qc-code-number',
+    codeFunction: '--qc-code-function',
+    highlight: '--qc-highlight',
+    skeleton: '--qc-skeleton',
+    skeletonShine: '--qc-skeleton-shine'
+  },
+  radii: {
+    card: '--qc-radius-card',
+    panel: '--qc-radius-panel',
+    control: '--qc-radius-control'
+  },
+  fonts: {
+    body: '--qc-font-body',
+    math: '--qc-font-math',
+    mono: '--qc-font-mono'
+  },
+  shadows: {
+    card: '--qc-shadow'
+  }
+};
+
+export const themeToCssVariables = (theme: QuestionCardTheme): Record<string, string> => {
+  const variables: Record<string, string> = {};
+  (Object.keys(themeVariableNames) as Array<keyof QuestionCardTheme>).forEach((group) => {
+    const names = themeVariableNames[group] as Record<string, string>;
+    const values = theme[group] as Record<string, string>;
+    Object.keys(names).forEach((key) => {
+      variables[names[key]] = values[key];
+    });
+  });
+
+  return variables;
+};
+
+const themeCssBlock = (selector: string, theme: QuestionCardTheme, indent = '') => {
+  const declarations = Object.entries(themeToCssVariables(theme))
+    .map(([name, value]) => `${indent}  ${name}: ${value};`)
+    .join('\n');
+
+  return `${indent}${selector} {\n${declarations}\n${indent}}`;
+};
+
+const QuestionCardThemeContext = createContext<QuestionCardThemeSetting | undefined>(undefined);
+
+export const QuestionCardThemeProvider = ({
+  theme,
+  children
+}: {
+  theme: QuestionCardThemeSetting;
+  children: React.ReactNode;
+}) => (
+  <QuestionCardThemeContext.Provider value={theme}>{children}</QuestionCardThemeContext.Provider>
+);
+
+export const useQuestionCardTheme = (override?: QuestionCardThemeSetting) => {
+  const contextTheme = useContext(QuestionCardThemeContext);
+  const theme = override ?? contextTheme;
+
+  return useMemo(() => {
+    if (!theme) {
+      return { className: undefined, style: undefined };
+    }
+
+    if (typeof theme === 'string') {
+      return { className: `qc-theme-${theme}`, style: undefined };
+    }
+
+    return { className: undefined, style: themeToCssVariables(theme) as React.CSSProperties };
+  }, [theme]);
+};
+
 export const questionCardStyles = `
-:root {
-  --qc-bg: linear-gradient(135deg, #f6f4ff 0%, #f9fbff 45%, #f2f8f6 100%);
-  --qc-surface: #ffffff;
-  --qc-border: #e4e8f0;
-  --qc-text: #1b1f2a;
-  --qc-muted: #5e6575;
-  --qc-accent: #1a7f72;
-  --qc-accent-strong: #0f5c52;
-  --qc-error: #b42318;
-  --qc-warning: #b54708;
-  --qc-correct: #1a7f37;
-  --qc-incorrect: #c01048;
-  --qc-shadow: 0 12px 30px rgba(25, 31, 42, 0.1);
+${themeCssBlock(':root', lightTheme)}
+
+${themeCssBlock('.qc-theme-light', lightTheme)}
+
+${themeCssBlock('.qc-theme-dark', darkTheme)}
+
+@media (prefers-color-scheme: dark) {
+${themeCssBlock('.qc-theme-auto', darkTheme, '  ')}
 }
 
 .question-card {
   background: var(--qc-bg);
   color: var(--qc-text);
-  border-radius: 18px;
+  border-radius: var(--qc-radius-card);
   border: 1px solid var(--qc-border);
   padding: 24px;
   max-width: 720px;
   margin: 0 auto;
   box-shadow: var(--qc-shadow);
-  font-family: "IBM Plex Sans", "Segoe UI", sans-serif;
+  font-family: var(--qc-font-body);
   line-height: 1.6;
 }
 
@@ -989,28 +7134,34 @@ export const questionCardStyles = `
 .explanation__fallback {
   padding: 12px 14px;
   border: 1px dashed var(--qc-border);
-  border-radius: 12px;
+  border-radius: var(--qc-radius-control);
   color: var(--qc-warning);
-  background: rgba(255, 241, 229, 0.6);
+  background: var(--qc-warning-surface);
 }
 
 .math-inline,
 .math-display {
-  font-family: "STIX Two Math", "Cambria Math", serif;
+  font-family: var(--qc-font-math);
 }
 
 .math-block {
   margin: 12px 0;
   padding: 8px 12px;
-  background: rgba(255, 255, 255, 0.7);
-  border-radius: 12px;
+  background: var(--qc-surface);
+  border-radius: var(--qc-radius-control);
+}
+
+.math-loading {
+  color: var(--qc-muted);
+  font-family: var(--qc-font-mono);
+  font-size: 0.9em;
 }
 
 .math-fallback {
-  background: rgba(0, 0, 0, 0.06);
+  background: var(--qc-code-surface);
   padding: 2px 6px;
   border-radius: 6px;
-  font-family: "SFMono-Regular", Consolas, "Liberation Mono", Menlo, monospace;
+  font-family: var(--qc-font-mono);
 }
 
 .math-warning {
@@ -1019,23 +7170,175 @@ export const questionCardStyles = `
   margin-left: 4px;
 }
 
+.tiptap-highlight {
+  background: var(--qc-highlight);
+  color: inherit;
+  padding: 0 2px;
+  border-radius: 3px;
+}
+
+.question-card sub,
+.question-card sup {
+  font-size: 0.75em;
+  line-height: 0;
+}
+
+.tiptap-blocked-link {
+  text-decoration: underline dotted;
+  color: var(--qc-muted);
+}
+
+.tiptap-blocked-image {
+  display: inline-block;
+  padding: 2px 6px;
+  border: 1px dashed var(--qc-border);
+  border-radius: 6px;
+  color: var(--qc-muted);
+  font-size: 0.9em;
+}
+
 .tiptap-inline-paragraph,
 .tiptap-inline-heading,
 .tiptap-inline-list,
 .tiptap-inline-list-item,
-.tiptap-inline-quote {
+.tiptap-inline-quote,
+.tiptap-inline-table,
+.tiptap-inline-table-row,
+.tiptap-inline-table-header,
+.tiptap-inline-table-cell {
   display: inline;
 }
 
+.tiptap-inline-table-header {
+  font-weight: 600;
+}
+
 .tiptap-inline-sep {
   color: var(--qc-muted);
 }
 
 .tiptap-inline-code {
-  background: rgba(0, 0, 0, 0.06);
+  background: var(--qc-code-surface);
   padding: 2px 6px;
   border-radius: 6px;
-  font-family: "SFMono-Regular", Consolas, "Liberation Mono", Menlo, monospace;
+  font-family: var(--qc-font-mono);
+}
+
+.tiptap-code {
+  margin: 12px 0;
+  border-radius: var(--qc-radius-control);
+  background: var(--qc-code-surface);
+  overflow: hidden;
+}
+
+.tiptap-code__header {
+  display: flex;
+  align-items: center;
+  justify-content: flex-end;
+  gap: 8px;
+  padding: 6px 10px 0;
+  font-size: 0.8em;
+}
+
+.tiptap-code__language {
+  margin-right: auto;
+  color: var(--qc-muted);
+  font-weight: 600;
+}
+
+.tiptap-code__copy {
+  background: transparent;
+  border: 1px solid var(--qc-border);
+  border-radius: 8px;
+  padding: 2px 8px;
+  color: var(--qc-muted);
+  font: inherit;
+  cursor: pointer;
+}
+
+.tiptap-code__pre {
+  margin: 0;
+  padding: 8px 0 12px;
+  overflow-x: auto;
+  font-family: var(--qc-font-mono);
+  font-size: 0.9em;
+  line-height: 1.5;
+}
+
+.tiptap-code__line {
+  display: inline-block;
+  min-width: 100%;
+  padding: 0 12px;
+  box-sizing: border-box;
+}
+
+.tiptap-code__line--highlighted {
+  background: var(--qc-highlight);
+}
+
+.tiptap-code__pre--numbered .tiptap-code__line::before {
+  content: attr(data-line);
+  display: inline-block;
+  width: 2.5em;
+  margin-right: 12px;
+  text-align: right;
+  color: var(--qc-muted);
+  user-select: none;
+}
+
+.tiptap-token--keyword {
+  color: var(--qc-code-keyword);
+}
+
+.tiptap-token--string {
+  color: var(--qc-code-string);
+}
+
+.tiptap-token--comment {
+  color: var(--qc-code-comment);
+  font-style: italic;
+}
+
+.tiptap-token--number {
+  color: var(--qc-code-number);
+}
+
+.tiptap-token--function,
+.tiptap-token--property {
+  color: var(--qc-code-function);
+}
+
+.tiptap-token--operator,
+.tiptap-token--punctuation {
+  color: var(--qc-muted);
+}
+
+.tiptap-table-wrapper {
+  overflow-x: auto;
+  margin: 12px 0;
+}
+
+.tiptap-table {
+  border-collapse: collapse;
+  width: 100%;
+  background: var(--qc-surface);
+}
+
+.tiptap-table th,
+.tiptap-table td {
+  border: 1px solid var(--qc-border);
+  padding: 6px 10px;
+  text-align: left;
+  vertical-align: top;
+}
+
+.tiptap-table th {
+  background: rgba(26, 127, 114, 0.08);
+  font-weight: 600;
+}
+
+.tiptap-table p {
+  margin: 0;
 }
 
 .answer-options {
@@ -1053,7 +7356,7 @@ export const questionCardStyles = `
 .answer-options__button {
   width: 100%;
   text-align: left;
-  border-radius: 14px;
+  border-radius: var(--qc-radius-panel);
   border: 1px solid var(--qc-border);
   padding: 14px 16px;
   background: var(--qc-surface);
@@ -1070,7 +7373,7 @@ export const questionCardStyles = `
 }
 
 .answer-options__button:focus-visible {
-  outline: 3px solid rgba(26, 127, 114, 0.3);
+  outline: 3px solid var(--qc-focus-ring);
   outline-offset: 2px;
 }
 
@@ -1092,32 +7395,135 @@ export const questionCardStyles = `
   border-color: var(--qc-accent);
 }
 
-.answer-options__button.is-selected .answer-options__marker::after {
-  content: '';
-  width: 8px;
-  height: 8px;
-  border-radius: 50%;
-  background: var(--qc-accent);
-  position: absolute;
-  top: 2px;
-  left: 2px;
+.answer-options__button.is-selected .answer-options__marker::after {
+  content: '';
+  width: 8px;
+  height: 8px;
+  border-radius: 50%;
+  background: var(--qc-accent);
+  position: absolute;
+  top: 2px;
+  left: 2px;
+}
+
+.answer-options--multiple .answer-options__marker {
+  border-radius: 4px;
+}
+
+.answer-options--multiple .answer-options__button.is-selected .answer-options__marker::after {
+  border-radius: 2px;
+}
+
+.answer-options__button.is-correct {
+  border-color: rgba(26, 127, 55, 0.5);
+  box-shadow: 0 0 0 1px rgba(26, 127, 55, 0.15);
+}
+
+.answer-options__button.is-incorrect {
+  border-color: rgba(192, 16, 72, 0.5);
+  box-shadow: 0 0 0 1px rgba(192, 16, 72, 0.15);
+}
+
+.answer-options__button.is-missed {
+  border-style: dashed;
+  border-color: rgba(26, 127, 55, 0.5);
+}
+
+.answer-options__status {
+  font-size: 0.85rem;
+  color: var(--qc-muted);
+}
+
+.response-input {
+  display: grid;
+  gap: 8px;
+  margin-bottom: 20px;
+}
+
+.response-input__field {
+  display: flex;
+  align-items: center;
+  gap: 10px;
+}
+
+.response-input__control {
+  flex: 1;
+  min-width: 0;
+  font: inherit;
+  color: var(--qc-text);
+  border-radius: var(--qc-radius-control);
+  border: 1px solid var(--qc-border);
+  padding: 12px 14px;
+  background: var(--qc-surface);
+}
+
+.response-input--numeric .response-input__control {
+  flex: 0 1 220px;
+  font-variant-numeric: tabular-nums;
+}
+
+.response-input__control:focus-visible {
+  outline: 3px solid var(--qc-focus-ring);
+  outline-offset: 2px;
+}
+
+.response-input__control:disabled {
+  opacity: 0.6;
+  cursor: not-allowed;
 }
 
-.answer-options__button.is-correct {
+.response-input.is-correct .response-input__control {
   border-color: rgba(26, 127, 55, 0.5);
   box-shadow: 0 0 0 1px rgba(26, 127, 55, 0.15);
 }
 
-.answer-options__button.is-incorrect {
+.response-input.is-incorrect .response-input__control {
   border-color: rgba(192, 16, 72, 0.5);
   box-shadow: 0 0 0 1px rgba(192, 16, 72, 0.15);
 }
 
-.answer-options__status {
-  font-size: 0.85rem;
+.response-input__unit,
+.response-input__feedback {
+  font-size: 0.9rem;
   color: var(--qc-muted);
 }
 
+.response-input__feedback {
+  display: grid;
+  gap: 4px;
+}
+
+.countdown {
+  display: flex;
+  justify-content: flex-end;
+  align-items: baseline;
+  gap: 8px;
+  margin-bottom: 12px;
+  color: var(--qc-muted);
+  font-size: 0.9rem;
+}
+
+.countdown__time {
+  font-size: 1.1rem;
+  font-weight: 600;
+  font-variant-numeric: tabular-nums;
+  color: var(--qc-text);
+}
+
+.countdown--warning .countdown__time,
+.countdown--expired .countdown__time {
+  color: var(--qc-error);
+}
+
+.countdown__announcement {
+  position: absolute;
+  width: 1px;
+  height: 1px;
+  overflow: hidden;
+  clip: rect(0 0 0 0);
+  white-space: nowrap;
+}
+
 .action-bar {
   display: flex;
   flex-wrap: wrap;
@@ -1128,9 +7534,9 @@ export const questionCardStyles = `
 
 .action-bar__check {
   background: var(--qc-accent);
-  color: #ffffff;
+  color: var(--qc-on-accent);
   border: none;
-  border-radius: 12px;
+  border-radius: var(--qc-radius-control);
   padding: 10px 18px;
   font-weight: 600;
   cursor: pointer;
@@ -1152,15 +7558,62 @@ export const questionCardStyles = `
   font-size: 0.95rem;
 }
 
+.action-bar__hint {
+  background: transparent;
+  color: var(--qc-accent);
+  border: 1px solid var(--qc-accent);
+  border-radius: var(--qc-radius-control);
+  padding: 9px 16px;
+  font-weight: 600;
+  cursor: pointer;
+}
+
+.action-bar__hint:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+
+.action-bar__hint-note {
+  color: var(--qc-muted);
+  font-size: 0.85rem;
+}
+
+.hints {
+  list-style: none;
+  margin: 0 0 16px;
+  padding: 0;
+  display: grid;
+  gap: 8px;
+}
+
+.hints__item {
+  border-radius: var(--qc-radius-panel);
+  border: 1px dashed var(--qc-border);
+  padding: 12px 16px;
+  background: var(--qc-surface);
+}
+
+.hints__label {
+  display: block;
+  margin-bottom: 4px;
+  font-size: 0.85rem;
+  font-weight: 600;
+  color: var(--qc-muted);
+}
+
+.hints__fallback {
+  color: var(--qc-muted);
+}
+
 .inline-error {
   display: flex;
   justify-content: space-between;
   align-items: center;
   gap: 12px;
   padding: 12px 14px;
-  border-radius: 12px;
+  border-radius: var(--qc-radius-control);
   border: 1px solid rgba(180, 35, 24, 0.3);
-  background: rgba(254, 231, 226, 0.75);
+  background: var(--qc-error-surface);
   color: var(--qc-error);
   margin-bottom: 16px;
 }
@@ -1180,12 +7633,21 @@ export const questionCardStyles = `
 }
 
 .explanation {
-  border-radius: 14px;
+  border-radius: var(--qc-radius-panel);
   border: 1px solid var(--qc-border);
   padding: 16px;
   background: var(--qc-surface);
 }
 
+.explanation:focus {
+  outline: none;
+}
+
+.explanation:focus-visible {
+  outline: 3px solid var(--qc-focus-ring);
+  outline-offset: 2px;
+}
+
 .explanation--empty {
   color: var(--qc-muted);
 }
@@ -1210,14 +7672,87 @@ export const questionCardStyles = `
   justify-content: center;
   align-items: center;
   gap: 12px;
-  background: rgba(255, 255, 255, 0.8);
+  background: var(--qc-overlay);
   text-align: center;
   padding: 20px;
 }
 
 .explanation__cta {
   background: var(--qc-accent);
-  color: #ffffff;
+  color: var(--qc-on-accent);
+  border: none;
+  border-radius: 10px;
+  padding: 8px 14px;
+  font-weight: 600;
+  cursor: pointer;
+}
+
+.option-feedback {
+  margin-top: 6px;
+  border-left: 3px solid var(--qc-border);
+  padding: 8px 12px;
+  font-size: 0.95rem;
+}
+
+.explanation .option-feedback {
+  margin: 0 0 12px;
+}
+
+.option-feedback--locked {
+  position: relative;
+  overflow: hidden;
+  min-height: 72px;
+}
+
+.option-feedback__blur {
+  filter: blur(6px);
+  pointer-events: none;
+  user-select: none;
+}
+
+.option-feedback__overlay {
+  position: absolute;
+  inset: 0;
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: center;
+  align-items: center;
+  gap: 12px;
+  background: var(--qc-overlay);
+  text-align: center;
+  padding: 8px 12px;
+}
+
+.option-feedback__cta {
+  background: var(--qc-accent);
+  color: var(--qc-on-accent);
+  border: none;
+  border-radius: 10px;
+  padding: 6px 12px;
+  font-weight: 600;
+  cursor: pointer;
+}
+
+.option-feedback__fallback {
+  color: var(--qc-muted);
+}
+
+.locked-feature {
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+  border-radius: var(--qc-radius-panel);
+  border: 1px dashed var(--qc-border);
+  padding: 12px 16px;
+  color: var(--qc-muted);
+  background: var(--qc-surface);
+}
+
+.locked-feature__cta {
+  background: var(--qc-accent);
+  color: var(--qc-on-accent);
   border: none;
   border-radius: 10px;
   padding: 8px 14px;
@@ -1226,7 +7761,12 @@ export const questionCardStyles = `
 }
 
 .skeleton {
-  background: linear-gradient(90deg, #e6eaf1 0%, #f3f6fb 50%, #e6eaf1 100%);
+  background: linear-gradient(
+    90deg,
+    var(--qc-skeleton) 0%,
+    var(--qc-skeleton-shine) 50%,
+    var(--qc-skeleton) 100%
+  );
   border-radius: 10px;
   animation: skeleton-pulse 1.2s ease-in-out infinite;
 }
@@ -1246,6 +7786,198 @@ export const questionCardStyles = `
   width: 180px;
 }
 
+.quiz-session {
+  color: var(--qc-text);
+  font-family: var(--qc-font-body);
+  display: grid;
+  gap: 16px;
+  max-width: 720px;
+  margin: 0 auto;
+}
+
+.quiz-session__header {
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: space-between;
+  align-items: center;
+  gap: 12px;
+}
+
+.quiz-session__score,
+.quiz-progress__label {
+  color: var(--qc-muted);
+  font-size: 0.95rem;
+}
+
+.quiz-progress {
+  display: grid;
+  gap: 8px;
+}
+
+.quiz-progress__steps {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+  padding: 0;
+  margin: 0;
+  list-style: none;
+}
+
+.quiz-progress__step {
+  width: 14px;
+  height: 14px;
+  padding: 0;
+  border-radius: 50%;
+  border: 2px solid var(--qc-border);
+  background: var(--qc-surface);
+  cursor: pointer;
+}
+
+.quiz-progress__step.is-current {
+  border-color: var(--qc-accent);
+}
+
+.quiz-progress__step.is-correct {
+  background: var(--qc-correct);
+}
+
+.quiz-progress__step.is-incorrect {
+  background: var(--qc-incorrect);
+}
+
+.quiz-progress__step.is-skipped {
+  background: var(--qc-border);
+}
+
+.quiz-session__nav {
+  display: flex;
+  justify-content: space-between;
+  gap: 12px;
+}
+
+.quiz-session__prev,
+.quiz-session__next,
+.exam-session__next,
+.quiz-summary__restart {
+  border-radius: 12px;
+  padding: 10px 18px;
+  font-weight: 600;
+  cursor: pointer;
+  border: 1px solid var(--qc-border);
+  background: var(--qc-surface);
+  color: var(--qc-text);
+}
+
+.quiz-session__next,
+.quiz-summary__restart {
+  background: var(--qc-accent);
+  border-color: var(--qc-accent);
+  color: var(--qc-on-accent);
+}
+
+.quiz-session__prev:disabled,
+.quiz-session__next:disabled,
+.exam-session__next:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+
+.quiz-progress__step.is-answered {
+  background: var(--qc-accent);
+}
+
+.question-card__exam-note {
+  margin: 0;
+  color: var(--qc-muted);
+  font-size: 0.95rem;
+}
+
+.exam-session__fieldset {
+  border: 0;
+  padding: 0;
+  margin: 0;
+  min-width: 0;
+}
+
+.exam-session__actions {
+  display: flex;
+  gap: 12px;
+}
+
+.exam-session__unanswered {
+  margin: 0;
+  color: var(--qc-muted);
+  text-align: right;
+}
+
+.exam-review__list {
+  display: grid;
+  gap: 24px;
+  padding: 0;
+  list-style: none;
+}
+
+.exam-review__item {
+  display: grid;
+  gap: 12px;
+  padding-top: 16px;
+  border-top: 1px solid var(--qc-border);
+}
+
+.exam-review__header {
+  display: flex;
+  justify-content: space-between;
+  gap: 12px;
+  font-weight: 600;
+}
+
+.exam-review__item.is-correct .exam-review__status {
+  color: var(--qc-correct);
+}
+
+.exam-review__item.is-incorrect .exam-review__status {
+  color: var(--qc-incorrect);
+}
+
+.exam-review__item.is-unanswered .exam-review__status {
+  color: var(--qc-muted);
+}
+
+.quiz-summary__title {
+  margin-top: 0;
+}
+
+.quiz-summary__list {
+  display: grid;
+  gap: 8px;
+  padding-left: 20px;
+}
+
+.quiz-summary__item {
+  display: flex;
+  justify-content: space-between;
+  gap: 12px;
+}
+
+.quiz-summary__stem {
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+}
+
+.quiz-summary__item.is-correct .quiz-summary__status {
+  color: var(--qc-correct);
+}
+
+.quiz-summary__item.is-incorrect .quiz-summary__status {
+  color: var(--qc-incorrect);
+}
+
+.quiz-summary__item.is-skipped .quiz-summary__status,
+.quiz-summary__item.is-unanswered .quiz-summary__status {
+  color: var(--qc-muted);
+}
+
 @keyframes skeleton-pulse {
   0% {
     background-position: 0% 50%;